@@ -0,0 +1,429 @@
+#!/usr/bin/env node
+import {
+	patchTranslations,
+	syncTranslations,
+	translateJson,
+	TranslationResult
+} from '@/tools/translation.tools'
+import { checkTranslations } from '@/tools/check.tools'
+import { exportReview, importReview } from '@/tools/review.tools'
+import { pseudoTranslations } from '@/tools/pseudo.tools'
+import { DEFAULT_REVIEW_FOLDER } from '@/constants/review.constants'
+import {
+	DEFAULT_PSEUDO_EXPANSION,
+	PSEUDO_LOCALE
+} from '@/constants/pseudo.constants'
+import { formatCheckReport } from '@/utilities/check.utils'
+import { ConfigError } from '@/utilities/config.utils'
+import { Logger } from '@/utilities/logger.utils'
+import { TranslationRunError } from '@/utilities/error.utils'
+
+import { Command, program } from 'commander'
+
+const logger = new Logger()
+
+// repeatable option values are accumulated in an array
+const collect = (value: string, previous: string[]) => [...previous, value]
+
+// the API returns failed locales, the command fails with them
+const failOnErrors = ({ failures }: TranslationResult) => {
+	if (failures.length > 0) throw new TranslationRunError(failures)
+}
+
+const addTranslationOptions = (command: Command): Command =>
+	command
+		.option(
+			'-c, --config <path>',
+			'path to the config file; defaults to the nearest gentranslate.config.{json,ts,js,cjs}'
+		)
+		.option(
+			'-s, --source-locale <code>',
+			'locale of the source strings, named in the prompt and skipped as a target; defaults to en'
+		)
+		.option(
+			'--batch-size <number>',
+			'number of strings sent to the provider per request'
+		)
+		.option(
+			'--concurrency <number>',
+			'maximum number of provider requests in flight, shared by all locales'
+		)
+		.option(
+			'--requests-per-minute <number>',
+			'maximum number of provider requests started per minute'
+		)
+		.option(
+			'--tokens-per-minute <number>',
+			'maximum number of estimated prompt and completion tokens sent per minute'
+		)
+		.option(
+			'--retries <number>',
+			'attempts of a failed locale after the first one; errors such as a missing API key or an unknown model are not retried'
+		)
+		.option(
+			'--retry-delay <ms>',
+			'base delay of the exponential backoff between attempts, with jitter'
+		)
+		.option(
+			'-p, --provider <provider>',
+			'translation provider: openrouter, openai (any OpenAI-compatible endpoint) or echo (offline); defaults to $GENTRANSLATE_PROVIDER or openrouter'
+		)
+		.option(
+			'-m, --model <model>',
+			'model used by the provider; defaults to $GENTRANSLATE_MODEL'
+		)
+		.option(
+			'--base-url <url>',
+			'base URL of the OpenAI-compatible endpoint; defaults to $GENTRANSLATE_BASE_URL'
+		)
+		.option(
+			'--term-base <path>',
+			'JSON term base with the approved translation of each term per language'
+		)
+		.option(
+			'--metadata <path>',
+			'JSON file mapping keys to a description or { description, maxLength } used as translation context'
+		)
+		.option(
+			'--validation-report <path>',
+			'write translations that failed placeholder/ICU/tag/whitespace validation to a JSON report'
+		)
+		.option(
+			'--report <path>',
+			'write a JSON run report with the keys translated and failed, retries, tokens and elapsed time of each locale'
+		)
+		.option(
+			'--quality-check',
+			'back-translate every new translation, score it against the source and flag low scores, unusual lengths and text left in the source script for review'
+		)
+		.option(
+			'--quality-threshold <score>',
+			'back-translation similarity between 0 and 1 below which a translation is flagged; defaults to 0.5'
+		)
+		.option(
+			'--quality-report <path>',
+			'write the similarity, length ratio and flags of every checked translation to a JSON report'
+		)
+		.option(
+			'--memory-file <path>',
+			'translation memory file; defaults to .gentranslate-memory.json in the output folder'
+		)
+		.option('--no-memory', 'do not read or write the translation memory')
+		.option(
+			'--dry-run',
+			'print the keys each locale file would add, change or remove and the estimated requests, tokens and cost without writing or calling the provider'
+		)
+		.option('--plan-output <path>', 'write the dry-run plan as JSON')
+		.option(
+			'--lock-file <path>',
+			'lockfile with the source hash of every translated key; defaults to .gentranslate-lock.json in the output folder'
+		)
+		.option(
+			'-H, --header <header>',
+			'HTTP header sent with URL sources and sinks, e.g. "Authorization: Bearer ${TOKEN}"; repeatable',
+			collect,
+			[]
+		)
+		.option(
+			'--http-auth <mode>',
+			'env sends $GENTRANSLATE_HTTP_TOKEN as a bearer token to URL sources and sinks'
+		)
+		.option(
+			'--sink <url>',
+			'publish every written locale file to this URL, {locale} and {file} are replaced'
+		)
+		.option(
+			'--sink-type <type>',
+			'http (upload the whole file) or tms (send the changed keys as JSON); defaults to http'
+		)
+		.option(
+			'--sink-method <method>',
+			'PUT or POST; defaults to PUT for http and POST for tms'
+		)
+		.option(
+			'--path-template <template>',
+			'locale file paths relative to the output folder, e.g. {locale}/common.json or locales/{locale}/{namespace}.json'
+		)
+		.option(
+			'--sort-keys',
+			'reorder JSON and YAML locale files to follow the key order of the source file'
+		)
+
+program
+	.name('reusely-translation')
+	.description('A CLI tool for Reusely translation.')
+	.version('1.0.5')
+	.option('-v, --verbose', 'log debug messages')
+	.option('-q, --quiet', 'only log warnings and errors')
+	.option(
+		'--log-format <format>',
+		'log output format: text or json (NDJSON)',
+		'text'
+	)
+	.option(
+		'--trace <path>',
+		'append every prompt and response, with API keys and emails redacted, to an NDJSON file'
+	)
+	.hook('preAction', () => {
+		const options = program.opts()
+		if (!['text', 'json'].includes(options.logFormat)) {
+			throw new Error(
+				`Unknown log format "${options.logFormat}", expected text or json`
+			)
+		}
+		Logger.configure({
+			level: options.verbose ? 'DEBUG' : options.quiet ? 'WARN' : 'INFO',
+			format: options.logFormat,
+			tracePath: options.trace
+		})
+	})
+
+const patchCommand = program
+	.command(
+		'patch <path-to-base-translation-file> [path-to-patched-translation-file] [path-to-output-folder]'
+	)
+	.description(
+		'translate the keys changed between two versions of the source file; with --since or --base the old version is read from git: patch --since HEAD~1 <path-to-source-file> [path-to-output-folder]'
+	)
+	.option(
+		'--since <ref>',
+		'read the base version of the source file from this git ref, e.g. HEAD~1'
+	)
+	.option(
+		'--base <ref>',
+		'read the base version of the source file from the commit the current branch forked from this git ref, e.g. origin/main'
+	)
+	.option(
+		'-i, --include-languages <languages>',
+		'comma-separated list of languages to include in translation'
+	)
+	.option(
+		'-e, --exclude-keys <keys>',
+		'comma-separated list of keys to exclude from translation'
+	)
+	.option(
+		'-k, --keep-words <words>',
+		'comma-separated list of words to keep in translation'
+	)
+	.action(
+		async (
+			base: string,
+			patched: string | undefined,
+			folder: string | undefined,
+			options
+		) => {
+			// the source file is both the base, as committed, and the patched file
+			if (options.since !== undefined || options.base !== undefined) {
+				if (folder !== undefined) {
+					throw new Error(
+						'With --since or --base pass the source file and the output folder only'
+					)
+				}
+				failOnErrors(await patchTranslations(base, base, patched, options))
+				return
+			}
+			if (patched === undefined) {
+				throw new Error(
+					'Missing <path-to-patched-translation-file>, or pass --since or --base to read the base version from git'
+				)
+			}
+			failOnErrors(await patchTranslations(base, patched, folder, options))
+		}
+	)
+
+const translateJsonCommand = program
+	.command('translate-json <path-to-translation-file> [output-file-path]')
+	.option(
+		'--no-resume',
+		'ignore the checkpoint of an interrupted run and translate every locale again'
+	)
+	.action(async (source: string, output: string | undefined, options) => {
+		failOnErrors(await translateJson(source, output, options))
+	})
+
+const syncCommand = program
+	.command('sync <path-to-source-file> [path-to-output-folder]')
+	.description(
+		'translate only the keys whose source text changed since each locale was last translated, according to the lockfile'
+	)
+	.option(
+		'-i, --include-languages <languages>',
+		'comma-separated list of languages to include in translation'
+	)
+	.option(
+		'-e, --exclude-keys <keys>',
+		'comma-separated list of keys to exclude from translation'
+	)
+	.option(
+		'-k, --keep-words <words>',
+		'comma-separated list of words to keep in translation'
+	)
+	.action(async (source: string, folder: string | undefined, options) => {
+		failOnErrors(await syncTranslations(source, folder, options))
+	})
+
+program
+	.command('check <path-to-source-file> [path-to-locale-folder]')
+	.alias('lint')
+	.description(
+		'report missing, extra, untranslated, empty and placeholder-mismatched keys of every locale file without calling a provider'
+	)
+	.option(
+		'-c, --config <path>',
+		'path to the config file; defaults to the nearest gentranslate.config.{json,ts,js,cjs}'
+	)
+	.option(
+		'-i, --include-languages <languages>',
+		'comma-separated list of languages to check'
+	)
+	.option(
+		'-s, --source-locale <code>',
+		'locale of the source strings, allowed to match them; defaults to en'
+	)
+	.option('-e, --exclude-keys <keys>', 'comma-separated list of keys to ignore')
+	.option(
+		'-k, --keep-words <words>',
+		'comma-separated list of words that are not expected to be translated'
+	)
+	.option(
+		'-H, --header <header>',
+		'HTTP header sent when the source file is a URL; repeatable',
+		collect,
+		[]
+	)
+	.option(
+		'--http-auth <mode>',
+		'env sends $GENTRANSLATE_HTTP_TOKEN as a bearer token when the source file is a URL'
+	)
+	.option(
+		'--path-template <template>',
+		'locale file paths relative to the locale folder, e.g. locales/{locale}/{namespace}.json'
+	)
+	.option('--format <format>', 'output format: text or json', 'text')
+	.option('-o, --output <path>', 'also write the report as JSON to a file')
+	.option(
+		'--threshold <limits>',
+		'comma-separated issues allowed per type before failing, e.g. missing=0,untranslated=20'
+	)
+	.action(async (source: string, folder: string | undefined, options) => {
+		if (!['text', 'json'].includes(options.format)) {
+			throw new ConfigError('--format', ['must be one of: text, json'])
+		}
+		// the JSON report alone goes to stdout
+		if (options.format === 'json') Logger.configure({ stderr: true })
+		const report = await checkTranslations(source, folder, options)
+		console.log(
+			options.format === 'json'
+				? JSON.stringify(report, null, 2)
+				: formatCheckReport(report)
+		)
+		if (report.exceeded.length > 0) process.exitCode = 1
+	})
+
+program
+	.command('export <path-to-source-file> [path-to-locale-folder]')
+	.description(
+		'write the machine translations waiting for a human review to one XLIFF or CSV file per locale'
+	)
+	.option(
+		'-c, --config <path>',
+		'path to the config file; defaults to the nearest gentranslate.config.{json,ts,js,cjs}'
+	)
+	.option(
+		'-i, --include-languages <languages>',
+		'comma-separated list of languages to export'
+	)
+	.option(
+		'--path-template <template>',
+		'locale file paths relative to the locale folder, e.g. locales/{locale}/{namespace}.json'
+	)
+	.option('--format <format>', 'review file format: xliff or csv', 'xliff')
+	.option(
+		'--flagged',
+		'only export the translations flagged by the quality check'
+	)
+	.option(
+		'-o, --output <folder>',
+		'folder the review files are written to',
+		DEFAULT_REVIEW_FOLDER
+	)
+	.option(
+		'--lock-file <path>',
+		'lockfile with the review status of every key; defaults to .gentranslate-lock.json in the locale folder'
+	)
+	.action(async (source: string, folder: string | undefined, options) => {
+		await exportReview(source, folder, options)
+	})
+
+program
+	.command(
+		'import <path-to-source-file> <path-to-review-file-or-folder> [path-to-locale-folder]'
+	)
+	.description(
+		'apply reviewed XLIFF or CSV files to the locale files; reviewed keys are kept by later runs until their source text changes'
+	)
+	.option(
+		'-c, --config <path>',
+		'path to the config file; defaults to the nearest gentranslate.config.{json,ts,js,cjs}'
+	)
+	.option(
+		'-i, --include-languages <languages>',
+		'comma-separated list of languages to import'
+	)
+	.option(
+		'--path-template <template>',
+		'locale file paths relative to the locale folder, e.g. locales/{locale}/{namespace}.json'
+	)
+	.option(
+		'--lock-file <path>',
+		'lockfile with the review status of every key; defaults to .gentranslate-lock.json in the locale folder'
+	)
+	.option(
+		'--force',
+		'also import translations that fail placeholder or ICU validation'
+	)
+	.action(
+		async (
+			source: string,
+			review: string,
+			folder: string | undefined,
+			options
+		) => {
+			const { rejected } = await importReview(source, review, folder, options)
+			if (rejected.length > 0) process.exitCode = 1
+		}
+	)
+
+program
+	.command('pseudo <path-to-source-file> [path-to-output-folder]')
+	.description(
+		'write a pseudo locale with accented, padded and bracketed strings to catch hard-coded text and layout overflow, offline'
+	)
+	.option(
+		'-c, --config <path>',
+		'path to the config file; defaults to the nearest gentranslate.config.{json,ts,js,cjs}'
+	)
+	.option('--locale <code>', 'code of the pseudo locale', PSEUDO_LOCALE)
+	.option('--rtl', 'also write the right-to-left pseudo locale ar-XB')
+	.option(
+		'--expansion <ratio>',
+		'extra length added to every string, as a ratio of its letters',
+		String(DEFAULT_PSEUDO_EXPANSION)
+	)
+	.option('-e, --exclude-keys <keys>', 'comma-separated list of keys to skip')
+	.option(
+		'--path-template <template>',
+		'locale file paths relative to the output folder, e.g. locales/{locale}/{namespace}.json'
+	)
+	.action(async (source: string, folder: string | undefined, options) => {
+		await pseudoTranslations(source, folder, options)
+	})
+
+addTranslationOptions(patchCommand)
+addTranslationOptions(translateJsonCommand)
+addTranslationOptions(syncCommand)
+
+program.parseAsync().catch((error: Error) => {
+	logger.log('ERROR', error.message)
+	process.exitCode = 1
+})
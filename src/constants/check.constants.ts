@@ -0,0 +1,21 @@
+export const CHECK_ISSUE_TYPES = [
+	'missing',
+	'extra',
+	'untranslated',
+	'placeholder',
+	'empty',
+	'unknown-locale',
+	'invalid'
+] as const
+
+// issues allowed per type before `check` fails, types left out are unlimited
+export const DEFAULT_CHECK_THRESHOLDS: Partial<
+	Record<(typeof CHECK_ISSUE_TYPES)[number], number>
+> = {
+	missing: 0,
+	extra: 0,
+	placeholder: 0,
+	empty: 0,
+	'unknown-locale': 0,
+	invalid: 0
+}
@@ -0,0 +1,26 @@
+export const CONFIG_FILE_NAMES = [
+	'gentranslate.config.json',
+	'gentranslate.config.ts',
+	'gentranslate.config.js',
+	'gentranslate.config.cjs'
+]
+
+export const DEFAULT_SOURCE_LOCALE = 'en'
+
+// what a run does with a locale, see `locales` in the config
+export const LOCALE_MODES = ['translate', 'copy', 'skip'] as const
+
+// number of strings sent to the provider in a single request
+export const DEFAULT_BATCH_SIZE = 50
+
+// number of provider requests in flight at the same time
+export const DEFAULT_CONCURRENCY = 10
+
+// retries of a failed locale after the first attempt
+export const DEFAULT_RETRIES = 2
+
+// base delay of the exponential backoff between retries
+export const DEFAULT_RETRY_DELAY_MS = 1000
+
+// number of files read at the same time
+export const FILE_CONCURRENCY = 10
@@ -0,0 +1,8 @@
+// file of every locale of a Chrome extension, in `_locales/<code>/`
+export const CHROME_MESSAGES_FILE_NAME = 'messages.json'
+
+// file of every locale of an Android app, in `res/values-<qualifier>/`
+export const ANDROID_STRINGS_FILE_NAME = 'strings.xml'
+
+// file of every locale of an Apple app, in `<code>.lproj/`
+export const APPLE_STRINGS_FILE_NAME = 'Localizable.strings'
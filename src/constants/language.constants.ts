@@ -18,7 +18,6 @@ export const LANGUAGE_ENTRIES = new Map([
 	['ca', 'Catalan'],
 	['ceb', 'Cebuano'],
 	['ny', 'Chichewa'],
-	['zh', 'Chinese (Simplified)'],
 	['zh-TW', 'Chinese (Traditional)'],
 	['zh-CN', 'Chinese (Simplified)'],
 	['co', 'Corsican'],
@@ -48,7 +47,6 @@ export const LANGUAGE_ENTRIES = new Map([
 	['ha', 'Hausa'],
 	['haw', 'Hawaiian'],
 	['he', 'Hebrew'],
-	['iw', 'Hebrew'],
 	['hi', 'Hindi'],
 	['hmn', 'Hmong'],
 	['hu', 'Hungarian'],
@@ -59,7 +57,6 @@ export const LANGUAGE_ENTRIES = new Map([
 	['ga', 'Irish'],
 	['it', 'Italian'],
 	['ja', 'Japanese'],
-	['jw', 'Javanese'],
 	['jv', 'Javanese'],
 	['kn', 'Kannada'],
 	['kk', 'Kazakh'],
@@ -136,3 +133,10 @@ export const LANGUAGE_ENTRIES = new Map([
 	['yo', 'Yoruba'],
 	['zu', 'Zulu']
 ])
+
+// deprecated or shorthand codes still found in file names
+export const LANGUAGE_ALIASES = new Map([
+	['zh', 'zh-CN'],
+	['iw', 'he'],
+	['jw', 'jv']
+])
@@ -0,0 +1,22 @@
+export const DEFAULT_DOMAIN_CONTEXT = `- This is a Trade-in POS (Point of Sale) SaaS application, a buyback/trade-in platform where customers sell used items (phones, electronics, etc.)
+- Offer types describe HOW items are traded in (in-store, by mail, etc.)
+- Use standard/formal register appropriate for business software
+- Keep integration brand names in English: BackMarket, ShareASale, Tremendous, DataFeed
+- Example of CORRECT vs INCORRECT translation (e.g. Indonesian):
+  - WRONG: "In-Store Offer" → "Penawaran In-Store" (kept English term)
+  - RIGHT: "In-Store Offer" → "Penawaran di Toko" (fully translated)`
+
+// language of the source strings when the source locale is unknown
+export const DEFAULT_SOURCE_LANGUAGE = 'English'
+
+export const DEFAULT_GLOSSARY: Record<string, string> = {
+	'In-Store': 'physical store location (e.g., Indonesian: "di toko")',
+	'Mail-in': 'send by postal mail (e.g., Indonesian: "kirim pos")',
+	'Bulk Quote':
+		'wholesale/volume pricing (e.g., Indonesian: "penawaran grosir")',
+	'Easy Offer': 'simple/quick offer (e.g., Indonesian: "penawaran mudah")',
+	'Trade-in': 'exchange old item for value (translate to local equivalent)',
+	Offer: 'proposal/bid (translate appropriately)',
+	'Markup/Mark Up': 'increase in price (e.g., Indonesian: "Naikan Harga")',
+	'Mark Down': 'decrease in price (e.g., Indonesian: "Turunkan Harga")'
+}
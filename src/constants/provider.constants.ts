@@ -0,0 +1,23 @@
+export const PROVIDER_NAMES = ['openrouter', 'openai', 'echo'] as const
+
+export const DEFAULT_PROVIDER = 'openrouter'
+
+export const DEFAULT_MODELS = new Map<string, string>([
+	['openrouter', 'google/gemini-2.0-flash-001'],
+	['openai', 'default'],
+	['echo', 'echo']
+])
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:8080/v1'
+
+// USD per one million tokens, used for dry-run cost estimates
+export const MODEL_PRICING = new Map<string, { input: number; output: number }>(
+	[
+		['google/gemini-2.0-flash-001', { input: 0.1, output: 0.4 }],
+		['google/gemini-2.5-flash', { input: 0.3, output: 2.5 }],
+		['openai/gpt-4o-mini', { input: 0.15, output: 0.6 }],
+		['openai/gpt-4o', { input: 2.5, output: 10 }],
+		['anthropic/claude-3.5-haiku', { input: 0.8, output: 4 }],
+		['echo', { input: 0, output: 0 }]
+	]
+)
@@ -0,0 +1,67 @@
+// accented pseudo locale, every letter replaced and every string longer
+export const PSEUDO_LOCALE = 'en-XA'
+
+// right-to-left pseudo locale, the text is wrapped in bidi overrides
+export const PSEUDO_RTL_LOCALE = 'ar-XB'
+
+export const PSEUDO_LOCALES = [PSEUDO_LOCALE, PSEUDO_RTL_LOCALE]
+
+// extra length added to each string, as a ratio of its length
+export const DEFAULT_PSEUDO_EXPANSION = 0.3
+
+export const PSEUDO_PADDING = '~'
+
+export const PSEUDO_ACCENTS: Record<string, string> = {
+	a: 'á',
+	b: 'ƀ',
+	c: 'ç',
+	d: 'ð',
+	e: 'é',
+	f: 'ƒ',
+	g: 'ĝ',
+	h: 'ĥ',
+	i: 'î',
+	j: 'ĵ',
+	k: 'ķ',
+	l: 'ļ',
+	m: 'ɱ',
+	n: 'ñ',
+	o: 'ö',
+	p: 'þ',
+	q: 'ǫ',
+	r: 'ŕ',
+	s: 'š',
+	t: 'ţ',
+	u: 'û',
+	v: 'ṽ',
+	w: 'ŵ',
+	x: 'ẋ',
+	y: 'ý',
+	z: 'ž',
+	A: 'Å',
+	B: 'Ɓ',
+	C: 'Ç',
+	D: 'Ð',
+	E: 'É',
+	F: 'Ƒ',
+	G: 'Ĝ',
+	H: 'Ĥ',
+	I: 'Î',
+	J: 'Ĵ',
+	K: 'Ķ',
+	L: 'Ļ',
+	M: 'Ṁ',
+	N: 'Ñ',
+	O: 'Ö',
+	P: 'Þ',
+	Q: 'Ǫ',
+	R: 'Ŕ',
+	S: 'Š',
+	T: 'Ţ',
+	U: 'Û',
+	V: 'Ṽ',
+	W: 'Ŵ',
+	X: 'Ẋ',
+	Y: 'Ý',
+	Z: 'Ž'
+}
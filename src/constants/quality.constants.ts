@@ -0,0 +1,60 @@
+export const QUALITY_FLAGS = [
+	'low-similarity',
+	'length-ratio',
+	'source-script'
+] as const
+
+// back-translation similarity below which a translation is flagged
+export const DEFAULT_QUALITY_THRESHOLD = 0.5
+
+// how far the length ratio of a string may stray from the locale's norm
+export const LENGTH_RATIO_TOLERANCE = 2.5
+
+// shorter source texts vary too much in length to be compared
+export const MIN_LENGTH_RATIO_SOURCE = 12
+
+// strings of a locale needed to take the norm from the run itself
+export const MIN_LENGTH_RATIO_SAMPLES = 5
+
+// share of letters still in the source script that flags a translation
+export const SOURCE_SCRIPT_SHARE = 0.5
+
+// Unicode scripts of the ISO 15924 codes a locale may resolve to
+export const SCRIPT_PROPERTIES: Record<string, string[]> = {
+	Latn: ['Latin'],
+	Cyrl: ['Cyrillic'],
+	Grek: ['Greek'],
+	Arab: ['Arabic'],
+	Hebr: ['Hebrew'],
+	Hans: ['Han'],
+	Hant: ['Han'],
+	Jpan: ['Han', 'Hiragana', 'Katakana'],
+	Kore: ['Hangul', 'Han'],
+	Deva: ['Devanagari'],
+	Beng: ['Bengali'],
+	Guru: ['Gurmukhi'],
+	Gujr: ['Gujarati'],
+	Orya: ['Oriya'],
+	Taml: ['Tamil'],
+	Telu: ['Telugu'],
+	Knda: ['Kannada'],
+	Mlym: ['Malayalam'],
+	Sinh: ['Sinhala'],
+	Thai: ['Thai'],
+	Laoo: ['Lao'],
+	Khmr: ['Khmer'],
+	Mymr: ['Myanmar'],
+	Geor: ['Georgian'],
+	Armn: ['Armenian'],
+	Ethi: ['Ethiopic'],
+	Tibt: ['Tibetan'],
+	Thaa: ['Thaana']
+}
+
+// expected length of a translation relative to its source, by script
+export const SCRIPT_LENGTH_RATIOS: Record<string, number> = {
+	Hans: 0.35,
+	Hant: 0.35,
+	Jpan: 0.5,
+	Kore: 0.5
+}
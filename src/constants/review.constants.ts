@@ -0,0 +1,16 @@
+export const REVIEW_FORMATS = ['xliff', 'csv'] as const
+
+export const REVIEW_FILE_EXTENSIONS = new Map<string, string>([
+	['.xlf', 'xliff'],
+	['.xliff', 'xliff'],
+	['.csv', 'csv']
+])
+
+export const DEFAULT_REVIEW_FOLDER = 'review'
+
+export const REVIEW_CSV_COLUMNS = [
+	'key',
+	'source',
+	'translation',
+	'context'
+] as const
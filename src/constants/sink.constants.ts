@@ -0,0 +1,19 @@
+export const SINK_TYPES = ['http', 'tms'] as const
+
+export const SINK_METHODS = ['PUT', 'POST'] as const
+
+// `env` sends $GENTRANSLATE_HTTP_TOKEN as a bearer token
+export const HTTP_AUTH_MODES = ['env'] as const
+
+// bearer token of the URL sources and sinks configured with `auth: "env"`
+export const HTTP_TOKEN_ENV = 'GENTRANSLATE_HTTP_TOKEN'
+
+export const CONTENT_TYPES = new Map<string, string>([
+	['json', 'application/json'],
+	['yaml', 'application/yaml'],
+	['po', 'text/x-gettext-translation'],
+	['xliff', 'application/xliff+xml'],
+	['android', 'application/xml'],
+	['strings', 'text/plain'],
+	['stringsdict', 'application/x-plist']
+])
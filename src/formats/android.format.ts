@@ -0,0 +1,243 @@
+import {
+	detectEol,
+	escapeXml,
+	escapeXmlAttribute,
+	getXmlAttribute,
+	TranslationFormat,
+	TranslationObject,
+	unescapeXml
+} from '@/utilities/format.utils'
+
+const ELEMENT_PATTERN =
+	/([ \t]*)<(string|plurals|string-array)(?=[\s/>])([^>]*?)(?:\/>|>([\s\S]*?)<\/\2>)(\r?\n)?/g
+
+const ITEM_PATTERN =
+	/([ \t]*)<item(?=[\s/>])([^>]*?)(?:\/>|>([\s\S]*?)<\/item>)(\r?\n)?/g
+
+// `count[one]` and `planets[0]` address the items of plurals and arrays,
+// resource names cannot contain brackets
+const ITEM_KEY_PATTERN = /^(.+)\[([^\]]+)\]$/
+
+const EMPTY_DOCUMENT = `<?xml version="1.0" encoding="utf-8"?>
+<resources>
+</resources>
+`
+
+const ANDROID_ESCAPES: Record<string, string> = { n: '\n', t: '\t' }
+
+const isMarkup = (inner: string) => inner.includes('<')
+
+const decodeAndroid = (inner: string | undefined): string => {
+	if (inner === undefined) return ''
+	if (isMarkup(inner)) return inner
+	let text = unescapeXml(inner)
+	if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+		text = text.slice(1, -1)
+	}
+	return text.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escaped: string) =>
+		escaped.length === 5
+			? String.fromCharCode(parseInt(escaped.slice(1), 16))
+			: (ANDROID_ESCAPES[escaped] ?? escaped)
+	)
+}
+
+const encodeAndroid = (value: string, keepMarkup: boolean): string => {
+	if (keepMarkup) return value
+	return escapeXml(
+		value
+			.replace(/\\/g, '\\\\')
+			.replace(/'/g, "\\'")
+			.replace(/"/g, '\\"')
+			.replace(/\n/g, '\\n')
+			.replace(/\t/g, '\\t')
+			.replace(/^([@?])/, '\\$1')
+	)
+}
+
+/**
+ * Android `res/values*\/strings.xml`. Resource names are opaque and used
+ * verbatim: `<string>` entries map to their name, `<plurals>` items to
+ * `name[<quantity>]` and `<string-array>` items to `name[<index>]`.
+ * Entries marked `translatable="false"` are left untouched.
+ */
+export class AndroidFormat implements TranslationFormat {
+	public readonly name = 'android'
+	public readonly flatKeys = true
+	private content = ''
+	// element of every resource name, new ones are created alike
+	private types = new Map<string, string>()
+
+	public parse(content: string): TranslationObject {
+		this.content = content
+		const json: TranslationObject = {}
+		for (const match of content.matchAll(ELEMENT_PATTERN)) {
+			const [, , type, attributes, inner] = match
+			const name = getXmlAttribute(attributes, 'name')
+			if (!name || getXmlAttribute(attributes, 'translatable') === 'false') {
+				continue
+			}
+			this.types.set(name, type)
+			if (type === 'string') {
+				json[name] = decodeAndroid(inner)
+				continue
+			}
+			Array.from((inner ?? '').matchAll(ITEM_PATTERN)).forEach(
+				(item, index) => {
+					const key =
+						type === 'plurals'
+							? (getXmlAttribute(item[2], 'quantity') ?? String(index))
+							: String(index)
+					json[`${name}[${key}]`] = decodeAndroid(item[3])
+				}
+			)
+		}
+		return json
+	}
+
+	public useLayoutOf(source: TranslationFormat): void {
+		if (!(source instanceof AndroidFormat)) return
+		for (const [name, type] of source.types) {
+			if (!this.types.has(name)) this.types.set(name, type)
+		}
+	}
+
+	private get eol(): string {
+		return detectEol(this.content)
+	}
+
+	private updateItems(
+		type: string,
+		inner: string,
+		values: Record<string, string>
+	): string {
+		const remaining = new Map(Object.entries(values))
+		let lastIndentation = '        '
+		let index = 0
+		let updated = inner.replace(
+			ITEM_PATTERN,
+			(item, indentation: string, attributes: string, itemInner?: string) => {
+				lastIndentation = indentation
+				const key =
+					type === 'plurals'
+						? (getXmlAttribute(attributes, 'quantity') ?? String(index))
+						: String(index)
+				index++
+				const value = remaining.get(key)
+				remaining.delete(key)
+				if (value === undefined) return ''
+				if (decodeAndroid(itemInner) === value) return item
+				const newline = item.match(/\r?\n$/)?.[0] ?? ''
+				return `${indentation}<item${attributes}>${encodeAndroid(value, isMarkup(itemInner ?? ''))}</item>${newline}`
+			}
+		)
+		if (remaining.size > 0) {
+			const items = Array.from(remaining.entries())
+				.map(([key, value]) =>
+					type === 'plurals'
+						? `${lastIndentation}<item quantity="${escapeXmlAttribute(key)}">${encodeAndroid(value, false)}</item>${this.eol}`
+						: `${lastIndentation}<item>${encodeAndroid(value, false)}</item>${this.eol}`
+				)
+				.join('')
+			const lineStart = updated.lastIndexOf('\n') + 1
+			updated = updated.slice(0, lineStart) + items + updated.slice(lineStart)
+		}
+		return updated
+	}
+
+	private createElement(
+		name: string,
+		value: string | Record<string, string>,
+		indentation: string
+	): string {
+		const escapedName = escapeXmlAttribute(name)
+		if (typeof value === 'string') {
+			return `${indentation}<string name="${escapedName}">${encodeAndroid(value, false)}</string>${this.eol}`
+		}
+		const entries = Object.entries(value)
+		const type = this.types.get(name)
+		const isArray =
+			type === undefined
+				? entries.every(([key]) => /^\d+$/.test(key))
+				: type === 'string-array'
+		const items = entries
+			.map(([key, itemValue]) =>
+				isArray
+					? `${indentation}    <item>${encodeAndroid(itemValue, false)}</item>`
+					: `${indentation}    <item quantity="${escapeXmlAttribute(key)}">${encodeAndroid(itemValue, false)}</item>`
+			)
+			.join(this.eol)
+		const tag = isArray ? 'string-array' : 'plurals'
+		return `${indentation}<${tag} name="${escapedName}">${this.eol}${items}${this.eol}${indentation}</${tag}>${this.eol}`
+	}
+
+	// values by element, the items of plurals and arrays gathered by name
+	private groupElements(
+		json: TranslationObject
+	): Map<string, string | Record<string, string>> {
+		const elements = new Map<string, string | Record<string, string>>()
+		for (const [key, value] of Object.entries(json)) {
+			if (typeof value !== 'string') continue
+			const match = key.match(ITEM_KEY_PATTERN)
+			if (!match) {
+				elements.set(key, value)
+				continue
+			}
+			const [, name, item] = match
+			const items = elements.get(name)
+			if (typeof items === 'object') items[item] = value
+			else elements.set(name, { [item]: value })
+		}
+		return elements
+	}
+
+	public serialize(json: TranslationObject): string {
+		if (!this.content) this.content = EMPTY_DOCUMENT
+		const remaining = this.groupElements(json)
+		let lastIndentation = '    '
+
+		let content = this.content.replace(
+			ELEMENT_PATTERN,
+			(
+				element,
+				indentation: string,
+				type: string,
+				attributes: string,
+				inner?: string
+			) => {
+				lastIndentation = indentation
+				const name = getXmlAttribute(attributes, 'name')
+				if (!name || getXmlAttribute(attributes, 'translatable') === 'false') {
+					return element
+				}
+				const value = remaining.get(name)
+				remaining.delete(name)
+				if (value === undefined) return ''
+				const newline = element.match(/\r?\n$/)?.[0] ?? ''
+				if (type === 'string') {
+					if (typeof value !== 'string' || decodeAndroid(inner) === value) {
+						return element
+					}
+					return `${indentation}<string${attributes}>${encodeAndroid(value, isMarkup(inner ?? ''))}</string>${newline}`
+				}
+				if (typeof value !== 'object') return element
+				const updatedInner = this.updateItems(type, inner ?? '', value)
+				return `${indentation}<${type}${attributes}>${updatedInner}</${type}>${newline}`
+			}
+		)
+
+		if (remaining.size > 0) {
+			const elements = Array.from(remaining.entries())
+				.map(([name, value]) =>
+					this.createElement(name, value, lastIndentation)
+				)
+				.join('')
+			const closingIndex = content.lastIndexOf('</resources>')
+			const lineStart = content.lastIndexOf('\n', closingIndex) + 1
+			content =
+				content.slice(0, lineStart) + elements + content.slice(lineStart)
+		}
+
+		this.content = content
+		return content
+	}
+}
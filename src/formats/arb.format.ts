@@ -0,0 +1,105 @@
+import { JsonFormat } from '@/formats/json.format'
+import { TranslationFormat, TranslationObject } from '@/utilities/format.utils'
+import type { KeyDescription } from '@/utilities/metadata.utils'
+
+interface ArbPlaceholder {
+	type?: string
+	example?: string
+	description?: string
+}
+
+interface ArbMetadata {
+	description?: string
+	maxLength?: number
+	placeholders?: Record<string, ArbPlaceholder>
+	[field: string]: unknown
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Flutter Application Resource Bundles. Messages are exposed for
+ * translation, their `@key` metadata and the `@@locale`-like file attributes
+ * are kept and written back next to them.
+ */
+export class ArbFormat implements TranslationFormat {
+	public readonly name = 'arb'
+	public readonly flatKeys = true
+	// handles indentation, line endings and the final newline
+	private readonly json = new JsonFormat()
+	private document: Record<string, unknown> = {}
+
+	public parse(content: string): TranslationObject {
+		const document = this.json.parse(content) as unknown
+		if (!isObject(document)) throw new Error('ARB file must be a JSON object')
+		this.document = document
+		return Object.fromEntries(
+			Object.entries(document).filter(
+				(entry): entry is [string, string] =>
+					!entry[0].startsWith('@') && typeof entry[1] === 'string'
+			)
+		)
+	}
+
+	public serialize(json: TranslationObject): string {
+		const output: Record<string, unknown> = Object.fromEntries(
+			Object.entries(this.document).filter(([key]) => key.startsWith('@@'))
+		)
+		for (const [key, value] of Object.entries(json)) {
+			output[key] = value
+			const metadata = this.document[`@${key}`]
+			if (metadata !== undefined) output[`@${key}`] = metadata
+		}
+		return this.json.serialize(output as TranslationObject)
+	}
+
+	public describe(key: string): KeyDescription | undefined {
+		const metadata = this.getMetadata(key)
+		if (!metadata) return undefined
+		const placeholders = Object.entries(metadata.placeholders ?? {}).map(
+			([name, placeholder]) =>
+				[
+					`{${name}}`,
+					placeholder.description,
+					placeholder.type && `type ${placeholder.type}`,
+					placeholder.example && `e.g. ${placeholder.example}`
+				]
+					.filter(Boolean)
+					.join(' ')
+		)
+		const description = [
+			metadata.description,
+			placeholders.length > 0 && `placeholders: ${placeholders.join(', ')}`
+		]
+			.filter(Boolean)
+			.join('; ')
+		const maxLength = Number.isInteger(metadata.maxLength)
+			? metadata.maxLength
+			: undefined
+		if (!description && !maxLength) return undefined
+		return {
+			...(description ? { description } : {}),
+			...(maxLength ? { maxLength } : {})
+		}
+	}
+
+	public getMetadata(key: string): ArbMetadata | undefined {
+		const metadata = this.document[`@${key}`]
+		return isObject(metadata) ? (metadata as ArbMetadata) : undefined
+	}
+
+	public setMetadata(key: string, metadata: object): void {
+		this.document[`@${key}`] = metadata
+	}
+
+	public setLocale(code: string): void {
+		// the locale comes first, like the files generated by Flutter tools
+		this.document = {
+			'@@locale': code.replace(/-/g, '_'),
+			...Object.fromEntries(
+				Object.entries(this.document).filter(([key]) => key !== '@@locale')
+			)
+		}
+	}
+}
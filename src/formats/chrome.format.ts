@@ -0,0 +1,86 @@
+import { JsonFormat } from '@/formats/json.format'
+import { TranslationFormat, TranslationObject } from '@/utilities/format.utils'
+import type { KeyDescription } from '@/utilities/metadata.utils'
+
+interface ChromePlaceholder {
+	content: string
+	example?: string
+}
+
+interface ChromeMessage {
+	message: string
+	description?: string
+	placeholders?: Record<string, ChromePlaceholder>
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Chrome extension `_locales/<code>/messages.json`. Only the `message` of
+ * each entry is translated, its description and placeholders are kept, and
+ * copied to new entries as every locale has to define its placeholders.
+ */
+export class ChromeFormat implements TranslationFormat {
+	public readonly name = 'chrome'
+	public readonly flatKeys = true
+	private readonly json = new JsonFormat()
+	private document: Record<string, ChromeMessage> = {}
+
+	public parse(content: string): TranslationObject {
+		const document = this.json.parse(content) as unknown
+		if (!isObject(document)) {
+			throw new Error('Chrome messages.json must be a JSON object')
+		}
+		this.document = Object.fromEntries(
+			Object.entries(document).filter(
+				(entry): entry is [string, ChromeMessage] =>
+					isObject(entry[1]) && typeof entry[1].message === 'string'
+			)
+		)
+		return Object.fromEntries(
+			Object.entries(this.document).map(([key, entry]) => [key, entry.message])
+		)
+	}
+
+	public serialize(json: TranslationObject): string {
+		const output: Record<string, ChromeMessage> = {}
+		for (const [key, value] of Object.entries(json)) {
+			if (typeof value !== 'string') continue
+			// message first, like the examples of the Chrome documentation
+			output[key] = { message: value, ...this.getMetadata(key) }
+		}
+		return this.json.serialize(output as unknown as TranslationObject)
+	}
+
+	public describe(key: string): KeyDescription | undefined {
+		const entry = this.document[key]
+		if (!entry) return undefined
+		const placeholders = Object.entries(entry.placeholders ?? {}).map(
+			([name, placeholder]) =>
+				`$${name.toUpperCase()}$ = ${placeholder.content}${placeholder.example ? ` (e.g. ${placeholder.example})` : ''}`
+		)
+		const description = [
+			entry.description,
+			placeholders.length > 0 && `placeholders: ${placeholders.join(', ')}`
+		]
+			.filter(Boolean)
+			.join('; ')
+		return description ? { description } : undefined
+	}
+
+	public getMetadata(key: string): Omit<ChromeMessage, 'message'> | undefined {
+		const entry = this.document[key]
+		if (!entry) return undefined
+		return Object.fromEntries(
+			Object.entries(entry).filter(([field]) => field !== 'message')
+		)
+	}
+
+	public setMetadata(key: string, metadata: object): void {
+		this.document[key] = {
+			...(metadata as Omit<ChromeMessage, 'message'>),
+			message: this.document[key]?.message ?? ''
+		}
+	}
+}
@@ -0,0 +1,61 @@
+import { CHROME_MESSAGES_FILE_NAME } from '@/constants/format.constants'
+import { AndroidFormat } from '@/formats/android.format'
+import { ArbFormat } from '@/formats/arb.format'
+import { ChromeFormat } from '@/formats/chrome.format'
+import { JsonFormat } from '@/formats/json.format'
+import { PoFormat } from '@/formats/po.format'
+import { StringsFormat } from '@/formats/strings.format'
+import { StringsdictFormat } from '@/formats/stringsdict.format'
+import { XliffFormat } from '@/formats/xliff.format'
+import { YamlFormat } from '@/formats/yaml.format'
+import { TranslationFormat } from '@/utilities/format.utils'
+
+const FORMATS_BY_EXTENSION: Record<string, () => TranslationFormat> = {
+	'.json': () => new JsonFormat(),
+	'.arb': () => new ArbFormat(),
+	'.yaml': () => new YamlFormat(),
+	'.yml': () => new YamlFormat(),
+	'.po': () => new PoFormat(),
+	'.pot': () => new PoFormat(),
+	'.xlf': () => new XliffFormat(),
+	'.xliff': () => new XliffFormat(),
+	'.xml': () => new AndroidFormat(),
+	'.strings': () => new StringsFormat(),
+	'.stringsdict': () => new StringsdictFormat()
+}
+
+// formats recognized by their file name rather than their extension
+const FORMATS_BY_FILE_NAME: Record<string, () => TranslationFormat> = {
+	[CHROME_MESSAGES_FILE_NAME]: () => new ChromeFormat()
+}
+
+export const SUPPORTED_EXTENSIONS = Object.keys(FORMATS_BY_EXTENSION)
+
+// file name of a path or URL, ignoring query strings and fragments
+export const getFileName = (pathOrUrl: string): string =>
+	pathOrUrl.split(/[?#]/)[0].split('/').pop() ?? ''
+
+export const getFileExtension = (pathOrUrl: string): string => {
+	const fileName = getFileName(pathOrUrl)
+	const dotIndex = fileName.lastIndexOf('.')
+	return dotIndex === -1 ? '' : fileName.slice(dotIndex).toLowerCase()
+}
+
+export const isSupportedTranslationFile = (pathOrUrl: string): boolean =>
+	getFileExtension(pathOrUrl) in FORMATS_BY_EXTENSION
+
+export const createTranslationFormat = (
+	pathOrUrl: string
+): TranslationFormat => {
+	const createNamedFormat = FORMATS_BY_FILE_NAME[getFileName(pathOrUrl)]
+	if (createNamedFormat) return createNamedFormat()
+	// extensionless sources, typically API endpoints, are read as JSON
+	const extension = getFileExtension(pathOrUrl) || '.json'
+	const createFormat = FORMATS_BY_EXTENSION[extension]
+	if (!createFormat) {
+		throw new Error(
+			`Unsupported translation file "${pathOrUrl}", expected one of: ${SUPPORTED_EXTENSIONS.join(', ')}`
+		)
+	}
+	return createFormat()
+}
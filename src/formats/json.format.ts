@@ -0,0 +1,39 @@
+import {
+	detectEol,
+	TranslationFormat,
+	TranslationObject
+} from '@/utilities/format.utils'
+
+const DEFAULT_INDENTATION = '  '
+
+/**
+ * JSON resources. The indentation, line endings, byte order mark and final
+ * newline of the parsed file are reused when serializing it again.
+ */
+export class JsonFormat implements TranslationFormat {
+	public readonly name = 'json'
+	public readonly flatKeys = false
+	private indentation = DEFAULT_INDENTATION
+	private eol = '\n'
+	private bom = ''
+	private finalNewline = false
+
+	public parse(content: string): TranslationObject {
+		this.bom = content.startsWith('\uFEFF') ? '\uFEFF' : ''
+		const body = content.slice(this.bom.length)
+		this.eol = detectEol(body)
+		this.finalNewline = body.endsWith('\n')
+		this.indentation =
+			body.match(/^\s*[{[][ \t]*\r?\n([ \t]+)\S/)?.[1] ?? DEFAULT_INDENTATION
+		return JSON.parse(body)
+	}
+
+	public serialize(json: TranslationObject): string {
+		const serialized = JSON.stringify(json, null, this.indentation)
+		return (
+			this.bom +
+			(this.eol === '\n' ? serialized : serialized.replace(/\n/g, this.eol)) +
+			(this.finalNewline ? this.eol : '')
+		)
+	}
+}
@@ -0,0 +1,201 @@
+import {
+	detectEol,
+	TranslationFormat,
+	TranslationObject
+} from '@/utilities/format.utils'
+
+interface PoEntry {
+	raw: string[]
+	comments: string[]
+	msgctxt?: string
+	msgid?: string
+	msgidPlural?: string
+	msgstr: string[]
+}
+
+// gettext separates the context from the message id with EOT
+const CONTEXT_SEPARATOR = '\u0004'
+
+const unescapePo = (text: string): string =>
+	text.replace(/\\(["\\ntr])/g, (_, char: string) =>
+		char === 'n' ? '\n' : char === 't' ? '\t' : char === 'r' ? '\r' : char
+	)
+
+const escapePo = (text: string): string =>
+	text
+		.replace(/\\/g, '\\\\')
+		.replace(/"/g, '\\"')
+		.replace(/\t/g, '\\t')
+		.replace(/\r/g, '\\r')
+		.replace(/\n/g, '\\n')
+
+const formatPoString = (keyword: string, value: string): string[] => {
+	const lines = value.split(/(?<=\n)/)
+	if (lines.length <= 1) return [`${keyword} "${escapePo(value)}"`]
+	return [`${keyword} ""`, ...lines.map((line) => `"${escapePo(line)}"`)]
+}
+
+// `nplurals` of the `Plural-Forms` header, undefined in templates (`INTEGER`)
+const getPluralFormCount = (header: string): number | undefined => {
+	const match = header.match(/^Plural-Forms:.*\bnplurals\s*=\s*(\d+)/m)
+	return match ? Number(match[1]) : undefined
+}
+
+/**
+ * gettext PO/POT catalogs. Keys are the message ids (prefixed with the
+ * context when present), plural forms are exposed as `<msgid>[n]`, as many
+ * as the `Plural-Forms` header asks for. Untranslated entries fall back to
+ * the message id, as gettext does.
+ */
+export class PoFormat implements TranslationFormat {
+	public readonly name = 'po'
+	public readonly flatKeys = true
+	private entries: PoEntry[] = []
+	private eol = '\n'
+	private pluralForms?: number
+
+	public parse(content: string): TranslationObject {
+		this.eol = detectEol(content)
+		this.entries = content
+			.trimEnd()
+			.split(/\r?\n(?:[ \t]*\r?\n)+/)
+			.filter((block) => block.trim().length > 0)
+			.map((block) => this.parseEntry(block.split(/\r?\n/)))
+		const header = this.entries.find(
+			(entry) => entry.msgid === '' && entry.msgctxt === undefined
+		)
+		this.pluralForms = header && getPluralFormCount(header.msgstr[0] ?? '')
+
+		const json: TranslationObject = {}
+		for (const entry of this.entries) {
+			for (const [key, value] of this.getEntryValues(entry)) {
+				json[key] = value
+			}
+		}
+		return json
+	}
+
+	private parseEntry(lines: string[]): PoEntry {
+		const entry: PoEntry = { raw: lines, comments: [], msgstr: [] }
+		let current: { set: (value: string) => void; value: string } | undefined
+		const commit = () => current?.set(current.value)
+		for (const line of lines) {
+			const trimmed = line.trim()
+			if (trimmed.startsWith('#')) {
+				entry.comments.push(line)
+				continue
+			}
+			const keywordMatch = trimmed.match(
+				/^(msgctxt|msgid_plural|msgid|msgstr(?:\[(\d+)\])?)\s+"(.*)"$/
+			)
+			if (keywordMatch) {
+				commit()
+				const [, keyword, index, value] = keywordMatch
+				const setter =
+					keyword === 'msgctxt'
+						? (v: string) => (entry.msgctxt = v)
+						: keyword === 'msgid'
+							? (v: string) => (entry.msgid = v)
+							: keyword === 'msgid_plural'
+								? (v: string) => (entry.msgidPlural = v)
+								: (v: string) => (entry.msgstr[Number(index ?? 0)] = v)
+				current = { set: setter, value: unescapePo(value) }
+				continue
+			}
+			const continuation = trimmed.match(/^"(.*)"$/)
+			if (continuation && current) current.value += unescapePo(continuation[1])
+		}
+		commit()
+		return entry
+	}
+
+	private getBaseKey(entry: PoEntry): string | undefined {
+		// the header entry (empty msgid) is metadata, not a message
+		if (!entry.msgid) return undefined
+		return entry.msgctxt !== undefined
+			? `${entry.msgctxt}${CONTEXT_SEPARATOR}${entry.msgid}`
+			: entry.msgid
+	}
+
+	private getEntryValues(entry: PoEntry): [string, string][] {
+		const baseKey = this.getBaseKey(entry)
+		if (baseKey === undefined) return []
+		if (entry.msgidPlural === undefined) {
+			return [[baseKey, entry.msgstr[0] || (entry.msgid as string)]]
+		}
+		const forms = this.pluralForms ?? Math.max(entry.msgstr.length, 2)
+		return Array.from({ length: forms }, (_, i) => [
+			`${baseKey}[${i}]`,
+			entry.msgstr[i] ||
+				(i === 0 ? (entry.msgid as string) : (entry.msgidPlural as string))
+		])
+	}
+
+	private formatEntry(entry: PoEntry): string[] {
+		const lines = [...entry.comments]
+		if (entry.msgctxt !== undefined) {
+			lines.push(...formatPoString('msgctxt', entry.msgctxt))
+		}
+		lines.push(...formatPoString('msgid', entry.msgid ?? ''))
+		if (entry.msgidPlural !== undefined) {
+			lines.push(...formatPoString('msgid_plural', entry.msgidPlural))
+			entry.msgstr.forEach((value, i) =>
+				lines.push(...formatPoString(`msgstr[${i}]`, value ?? ''))
+			)
+		} else {
+			lines.push(...formatPoString('msgstr', entry.msgstr[0] ?? ''))
+		}
+		return lines
+	}
+
+	public serialize(json: TranslationObject): string {
+		const remaining = new Map(
+			Object.entries(json).filter(
+				(entry): entry is [string, string] => typeof entry[1] === 'string'
+			)
+		)
+		const blocks: string[][] = []
+		for (const entry of this.entries) {
+			const values = this.getEntryValues(entry)
+			if (values.length === 0) {
+				blocks.push(entry.raw)
+				continue
+			}
+			if (values.every(([key]) => !remaining.has(key))) continue
+
+			let isChanged = false
+			values.forEach(([key, fallback], i) => {
+				const value = remaining.get(key)
+				remaining.delete(key)
+				// keep untranslated entries empty instead of copying the msgid
+				const next =
+					value === undefined || (value === fallback && !entry.msgstr[i])
+						? (entry.msgstr[i] ?? '')
+						: value
+				if (next !== (entry.msgstr[i] ?? '')) isChanged = true
+				entry.msgstr[i] = next
+			})
+			blocks.push(isChanged ? this.formatEntry(entry) : entry.raw)
+		}
+
+		for (const [key, value] of remaining.entries()) {
+			const [msgctxt, msgid] = key.includes(CONTEXT_SEPARATOR)
+				? key.split(CONTEXT_SEPARATOR)
+				: [undefined, key]
+			const entry: PoEntry = {
+				raw: [],
+				comments: [],
+				msgctxt,
+				msgid,
+				msgstr: [value]
+			}
+			this.entries.push(entry)
+			blocks.push(this.formatEntry(entry))
+		}
+
+		return (
+			blocks.map((lines) => lines.join(this.eol)).join(this.eol + this.eol) +
+			this.eol
+		)
+	}
+}
@@ -0,0 +1,101 @@
+import {
+	detectEol,
+	TranslationFormat,
+	TranslationObject
+} from '@/utilities/format.utils'
+
+// comments are matched first so commented out entries are skipped
+const TOKEN_PATTERN =
+	/\/\*[\s\S]*?\*\/|\/\/[^\n]*|([ \t]*)("(?:[^"\\]|\\.)*"|[\w.-]+)\s*=\s*"((?:[^"\\]|\\.)*)"\s*;[ \t]*(\r?\n)?/g
+
+const STRINGS_ESCAPES: Record<string, string> = {
+	n: '\n',
+	t: '\t',
+	r: '\r',
+	'"': '"',
+	'\\': '\\'
+}
+
+const unescapeStrings = (text: string): string =>
+	text.replace(
+		/\\(U[0-9a-fA-F]{4}|u[0-9a-fA-F]{4}|.)/g,
+		(_, escaped: string) =>
+			escaped.length === 5
+				? String.fromCharCode(parseInt(escaped.slice(1), 16))
+				: (STRINGS_ESCAPES[escaped] ?? escaped)
+	)
+
+const escapeStrings = (text: string): string =>
+	text
+		.replace(/\\/g, '\\\\')
+		.replace(/"/g, '\\"')
+		.replace(/\n/g, '\\n')
+		.replace(/\t/g, '\\t')
+		.replace(/\r/g, '\\r')
+
+const decodeKey = (key: string): string =>
+	key.startsWith('"') ? unescapeStrings(key.slice(1, -1)) : key
+
+/**
+ * Apple `Localizable.strings` files (`"key" = "value";`), edited in place so
+ * comments and ordering are kept.
+ */
+export class StringsFormat implements TranslationFormat {
+	public readonly name = 'strings'
+	public readonly flatKeys = true
+	private content = ''
+
+	public parse(content: string): TranslationObject {
+		this.content = content.replace(/^\uFEFF/, '')
+		const json: TranslationObject = {}
+		for (const match of this.content.matchAll(TOKEN_PATTERN)) {
+			if (match[2] === undefined) continue
+			json[decodeKey(match[2])] = unescapeStrings(match[3])
+		}
+		return json
+	}
+
+	public serialize(json: TranslationObject): string {
+		const eol = detectEol(this.content)
+		const remaining = new Map(
+			Object.entries(json).filter(
+				(entry): entry is [string, string] => typeof entry[1] === 'string'
+			)
+		)
+		let content = this.content.replace(
+			TOKEN_PATTERN,
+			(
+				token,
+				indentation: string | undefined,
+				rawKey: string | undefined,
+				rawValue: string
+			) => {
+				if (rawKey === undefined) return token
+				const key = decodeKey(rawKey)
+				const value = remaining.get(key)
+				remaining.delete(key)
+				if (value === undefined) return ''
+				if (unescapeStrings(rawValue) === value) return token
+				const valueStart = token.lastIndexOf(`"${rawValue}"`)
+				return (
+					token.slice(0, valueStart) +
+					`"${escapeStrings(value)}"` +
+					token.slice(valueStart + rawValue.length + 2)
+				)
+			}
+		)
+
+		if (remaining.size > 0) {
+			if (content.length > 0 && !content.endsWith('\n')) content += eol
+			content += Array.from(remaining.entries())
+				.map(
+					([key, value]) =>
+						`"${escapeStrings(key)}" = "${escapeStrings(value)}";${eol}`
+				)
+				.join('')
+		}
+
+		this.content = content
+		return content
+	}
+}
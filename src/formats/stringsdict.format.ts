@@ -0,0 +1,192 @@
+import {
+	detectEol,
+	escapeXml,
+	TranslationFormat,
+	TranslationObject,
+	unescapeXml
+} from '@/utilities/format.utils'
+
+type PlistValue = string | number | boolean | PlistValue[] | PlistDict
+interface PlistDict {
+	[key: string]: PlistValue
+}
+
+// translatable leaves of a .stringsdict entry, everything else is metadata
+const TRANSLATABLE_KEYS = [
+	'NSStringLocalizedFormatKey',
+	'zero',
+	'one',
+	'two',
+	'few',
+	'many',
+	'other'
+]
+
+const PLIST_HEADER = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">`
+
+const TOKEN_PATTERN =
+	/<(\/?)(dict|array|key|string|integer|real|true|false|date|data)\s*(\/?)>/g
+
+const parsePlist = (content: string): PlistValue => {
+	const tokens = Array.from(content.matchAll(TOKEN_PATTERN))
+	let position = 0
+
+	const readText = (tag: string): string => {
+		const open = tokens[position]
+		const close = tokens[position + 1]
+		if (!close || close[1] !== '/' || close[2] !== tag) {
+			throw new Error(`Malformed plist: unterminated <${tag}>`)
+		}
+		position += 2
+		return unescapeXml(
+			content.slice(
+				(open.index as number) + open[0].length,
+				close.index as number
+			)
+		)
+	}
+
+	const parseValue = (): PlistValue => {
+		const token = tokens[position]
+		if (!token) throw new Error('Malformed plist: unexpected end of document')
+		const [, , tag, selfClosing] = token
+		if (tag === 'true' || tag === 'false') {
+			position++
+			return tag === 'true'
+		}
+		if (tag === 'dict' || tag === 'array') {
+			position++
+			if (selfClosing) return tag === 'dict' ? {} : []
+			const dict: PlistDict = {}
+			const array: PlistValue[] = []
+			while (tokens[position] && tokens[position][1] !== '/') {
+				if (tag === 'dict') {
+					const key = readText('key')
+					dict[key] = parseValue()
+				} else {
+					array.push(parseValue())
+				}
+			}
+			position++
+			return tag === 'dict' ? dict : array
+		}
+		if (selfClosing) {
+			position++
+			return ''
+		}
+		const text = readText(tag)
+		return tag === 'integer' || tag === 'real' ? Number(text) : text
+	}
+
+	return parseValue()
+}
+
+const serializePlist = (
+	value: PlistValue,
+	indentation: string,
+	eol: string
+): string => {
+	const inner = `${indentation}\t`
+	if (typeof value === 'string') return `<string>${escapeXml(value)}</string>`
+	if (typeof value === 'boolean') return value ? '<true/>' : '<false/>'
+	if (typeof value === 'number') {
+		return Number.isInteger(value)
+			? `<integer>${value}</integer>`
+			: `<real>${value}</real>`
+	}
+	if (Array.isArray(value)) {
+		if (value.length === 0) return '<array/>'
+		return `<array>${eol}${value.map((item) => `${inner}${serializePlist(item, inner, eol)}`).join(eol)}${eol}${indentation}</array>`
+	}
+	const entries = Object.entries(value)
+	if (entries.length === 0) return '<dict/>'
+	return `<dict>${eol}${entries
+		.map(
+			([key, item]) =>
+				`${inner}<key>${escapeXml(key)}</key>${eol}${inner}${serializePlist(item, inner, eol)}`
+		)
+		.join(eol)}${eol}${indentation}</dict>`
+}
+
+const pickTranslatable = (dict: PlistDict): TranslationObject => {
+	const result: TranslationObject = {}
+	for (const [key, value] of Object.entries(dict)) {
+		if (typeof value === 'string' && TRANSLATABLE_KEYS.includes(key)) {
+			result[key] = value
+		} else if (typeof value === 'object' && !Array.isArray(value)) {
+			const nested = pickTranslatable(value)
+			if (Object.keys(nested).length > 0) result[key] = nested
+		}
+	}
+	return result
+}
+
+const mergeTranslatable = (
+	target: PlistDict,
+	values: TranslationObject
+): PlistDict => {
+	for (const key of Object.keys(target)) {
+		const current = target[key]
+		const next = values[key]
+		const isTranslatableLeaf =
+			typeof current === 'string' && TRANSLATABLE_KEYS.includes(key)
+		if (isTranslatableLeaf && next === undefined) delete target[key]
+		if (
+			typeof current === 'object' &&
+			!Array.isArray(current) &&
+			Object.keys(pickTranslatable(current)).length > 0 &&
+			next === undefined
+		) {
+			delete target[key]
+		}
+	}
+	for (const [key, value] of Object.entries(values)) {
+		if (typeof value === 'string') {
+			target[key] = value
+			continue
+		}
+		const current = target[key]
+		const isDict =
+			typeof current === 'object' && current !== null && !Array.isArray(current)
+		// new plural variables need the spec keys next to their forms
+		const base: PlistDict = isDict
+			? current
+			: 'NSStringLocalizedFormatKey' in value
+				? {}
+				: {
+						NSStringFormatSpecTypeKey: 'NSStringPluralRuleType',
+						NSStringFormatValueTypeKey: 'd'
+					}
+		target[key] = mergeTranslatable(base, value as TranslationObject)
+	}
+	return target
+}
+
+/**
+ * Apple `.stringsdict` plural rules. Only `NSStringLocalizedFormatKey` and
+ * the plural category strings are exposed, as `key.NSStringLocalizedFormatKey`
+ * and `key.<variable>.<category>`.
+ */
+export class StringsdictFormat implements TranslationFormat {
+	public readonly name = 'stringsdict'
+	public readonly flatKeys = false
+	private plist: PlistDict = {}
+	private eol = '\n'
+
+	public parse(content: string): TranslationObject {
+		this.eol = detectEol(content)
+		const root = parsePlist(content)
+		if (typeof root !== 'object' || Array.isArray(root)) {
+			throw new Error('Malformed stringsdict: root element must be a <dict>')
+		}
+		this.plist = root
+		return pickTranslatable(root)
+	}
+
+	public serialize(json: TranslationObject): string {
+		this.plist = mergeTranslatable(this.plist, json)
+		return `${PLIST_HEADER}${this.eol}${serializePlist(this.plist, '', this.eol)}${this.eol}</plist>${this.eol}`
+	}
+}
@@ -0,0 +1,207 @@
+import {
+	detectEol,
+	escapeXml,
+	escapeXmlAttribute,
+	getXmlAttribute,
+	TranslationFormat,
+	TranslationObject,
+	unescapeXml
+} from '@/utilities/format.utils'
+
+interface XliffSegment {
+	key: string
+	source: string
+	target?: string
+	// inner content holds inline elements, kept as raw XML
+	isMarkup: boolean
+}
+
+const UNIT_PATTERNS = {
+	'1.2': /([ \t]*)<trans-unit\b([^>]*)>([\s\S]*?)<\/trans-unit>(\r?\n)?/g,
+	'2.0': /([ \t]*)<unit\b([^>]*)>([\s\S]*?)<\/unit>(\r?\n)?/g
+}
+
+const SEGMENT_PATTERN = /<segment\b[^>]*>([\s\S]*?)<\/segment>/g
+const SOURCE_PATTERN = /<source\b[^>]*>([\s\S]*?)<\/source>|<source\b[^>]*\/>/
+const TARGET_PATTERN = /<target\b[^>]*>([\s\S]*?)<\/target>|<target\b[^>]*\/>/
+
+const EMPTY_DOCUMENT = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file datatype="plaintext" original="messages">
+    <body>
+    </body>
+  </file>
+</xliff>
+`
+
+const decodeContent = (inner: string | undefined) => ({
+	value:
+		inner === undefined ? '' : inner.includes('<') ? inner : unescapeXml(inner),
+	isMarkup: inner?.includes('<') ?? false
+})
+
+/**
+ * XLIFF 1.2 (`<trans-unit>`) and 2.0 (`<unit>/<segment>`) documents, edited
+ * in place. Keys are unit ids, values the target text or the source text when
+ * no target exists yet.
+ */
+export class XliffFormat implements TranslationFormat {
+	public readonly name = 'xliff'
+	public readonly flatKeys = true
+	private content = ''
+	private version: '1.2' | '2.0' = '1.2'
+
+	public parse(content: string): TranslationObject {
+		this.content = content
+		this.version = /<xliff\b[^>]*\bversion\s*=\s*["']2/.test(content)
+			? '2.0'
+			: '1.2'
+		const json: TranslationObject = {}
+		for (const match of content.matchAll(UNIT_PATTERNS[this.version])) {
+			for (const segment of this.parseUnit(match[2], match[3])) {
+				json[segment.key] = segment.target || segment.source
+			}
+		}
+		return json
+	}
+
+	private getSegmentBodies(body: string): string[] {
+		if (this.version === '1.2') return [body]
+		return Array.from(body.matchAll(SEGMENT_PATTERN), (match) => match[1])
+	}
+
+	private parseUnit(attributes: string, body: string): XliffSegment[] {
+		const id = getXmlAttribute(attributes, 'id') ?? ''
+		const bodies = this.getSegmentBodies(body)
+		return bodies.map((segmentBody, index) => {
+			const source = decodeContent(segmentBody.match(SOURCE_PATTERN)?.[1])
+			const targetMatch = segmentBody.match(TARGET_PATTERN)
+			const target = targetMatch ? decodeContent(targetMatch[1]) : undefined
+			return {
+				key: bodies.length > 1 ? `${id}[${index}]` : id,
+				source: source.value,
+				target: target?.value,
+				isMarkup: source.isMarkup || (target?.isMarkup ?? false)
+			}
+		})
+	}
+
+	private encode(value: string, isMarkup: boolean): string {
+		return isMarkup ? value : escapeXml(value)
+	}
+
+	private applyTarget(
+		segmentBody: string,
+		segment: XliffSegment,
+		value: string
+	): string {
+		const encoded = this.encode(value, segment.isMarkup)
+		if (TARGET_PATTERN.test(segmentBody)) {
+			return segmentBody.replace(TARGET_PATTERN, (target) => {
+				const openTag = target.match(/^<target\b[^>]*?(?=\/?>)/)?.[0]
+				return `${openTag}>${encoded}</target>`
+			})
+		}
+		// an untranslated unit stays without target
+		if (value === segment.source) return segmentBody
+		const indentation = segmentBody.match(/\n([ \t]*)<source/)?.[1]
+		return segmentBody.replace(
+			/<source\b[^>]*>[\s\S]*?<\/source>|<source\b[^>]*\/>/,
+			(source) =>
+				indentation === undefined
+					? `${source}<target>${encoded}</target>`
+					: `${source}${this.eol}${indentation}<target>${encoded}</target>`
+		)
+	}
+
+	private get eol(): string {
+		return detectEol(this.content)
+	}
+
+	public serialize(
+		json: TranslationObject,
+		sources: Map<string, string>
+	): string {
+		const remaining = new Map(
+			Object.entries(json).filter(
+				(entry): entry is [string, string] => typeof entry[1] === 'string'
+			)
+		)
+		if (!this.content) this.content = EMPTY_DOCUMENT
+		let lastIndentation = this.version === '1.2' ? '      ' : '    '
+
+		let content = this.content.replace(
+			UNIT_PATTERNS[this.version],
+			(unit, indentation: string, attributes: string, body: string) => {
+				lastIndentation = indentation
+				const segments = this.parseUnit(attributes, body)
+				if (segments.every((segment) => !remaining.has(segment.key))) return ''
+				let segmentIndex = 0
+				const updateSegment = (segmentBody: string) => {
+					const segment = segments[segmentIndex++]
+					const value = remaining.get(segment.key)
+					remaining.delete(segment.key)
+					if (value === undefined) return segmentBody
+					return this.applyTarget(segmentBody, segment, value)
+				}
+				const updatedBody =
+					this.version === '1.2'
+						? updateSegment(body)
+						: body.replace(SEGMENT_PATTERN, (segment, segmentBody: string) =>
+								segment.replace(segmentBody, () => updateSegment(segmentBody))
+							)
+				return unit.replace(body, () => updatedBody)
+			}
+		)
+
+		if (remaining.size > 0) {
+			const units = Array.from(remaining.entries())
+				.map(([key, value]) =>
+					this.createUnit(key, value, sources.get(key), lastIndentation)
+				)
+				.join('')
+			const closingTag = this.version === '1.2' ? '</body>' : '</file>'
+			const closingIndex = content.lastIndexOf(closingTag)
+			if (closingIndex === -1) {
+				throw new Error(
+					`XLIFF document has no ${closingTag} to append units to`
+				)
+			}
+			const lineStart = content.lastIndexOf('\n', closingIndex) + 1
+			content = content.slice(0, lineStart) + units + content.slice(lineStart)
+		}
+
+		this.content = content
+		return content
+	}
+
+	private createUnit(
+		key: string,
+		value: string,
+		source: string | undefined,
+		indentation: string
+	): string {
+		const inner = `${indentation}  `
+		const id = escapeXmlAttribute(key)
+		const sourceText = escapeXml(source ?? value)
+		const targetText = escapeXml(value)
+		if (this.version === '1.2') {
+			return [
+				`${indentation}<trans-unit id="${id}">`,
+				`${inner}<source>${sourceText}</source>`,
+				`${inner}<target>${targetText}</target>`,
+				`${indentation}</trans-unit>`,
+				''
+			].join(this.eol)
+		}
+		return [
+			`${indentation}<unit id="${id}">`,
+			`${inner}<segment>`,
+			`${inner}  <source>${sourceText}</source>`,
+			`${inner}  <target>${targetText}</target>`,
+			`${inner}</segment>`,
+			`${indentation}</unit>`,
+			''
+		].join(this.eol)
+	}
+}
@@ -0,0 +1,108 @@
+import { isKnownLocaleCode } from '@/utilities/locale.utils'
+import {
+	flattenObject,
+	TranslationFormat,
+	TranslationObject
+} from '@/utilities/format.utils'
+
+import { Document, isMap, isScalar, parseDocument, YAMLMap } from 'yaml'
+
+/**
+ * YAML resources, edited through the parsed document so comments, anchors
+ * and key order survive a round trip. Rails style files wrapping everything
+ * in a single `<locale>:` root key are unwrapped on parse, new files get the
+ * root of their source renamed to their own locale.
+ */
+export class YamlFormat implements TranslationFormat {
+	public readonly name = 'yaml'
+	public readonly flatKeys = false
+	private document: Document = new Document({})
+	private rootKey?: string
+
+	public parse(content: string): TranslationObject {
+		this.document = parseDocument(content)
+		if (this.document.errors.length > 0) {
+			throw this.document.errors[0]
+		}
+		const json = (this.document.toJS() ?? {}) as TranslationObject
+		const rootKeys = Object.keys(json)
+		const isLocaleRoot =
+			rootKeys.length === 1 &&
+			isKnownLocaleCode(rootKeys[0]) &&
+			typeof json[rootKeys[0]] === 'object'
+		if (!isLocaleRoot) return json
+		this.rootKey = rootKeys[0]
+		return json[this.rootKey] as TranslationObject
+	}
+
+	public useLayoutOf(source: TranslationFormat): void {
+		const isEmpty =
+			!isMap(this.document.contents) ||
+			this.document.contents.items.length === 0
+		if (source instanceof YamlFormat && isEmpty) this.rootKey = source.rootKey
+	}
+
+	// the root key follows the locale of the file
+	public setLocale(code: string): void {
+		if (!this.rootKey || this.rootKey === code) return
+		const root = this.document.get(this.rootKey, true)
+		this.document.delete(this.rootKey)
+		if (root !== undefined) this.document.set(code, root)
+		this.rootKey = code
+	}
+
+	public serialize(json: TranslationObject): string {
+		if (!isMap(this.document.contents)) this.document = new Document({})
+		const prefix = this.rootKey ? [this.rootKey] : []
+		const documentJson = (this.document.toJS() ?? {}) as TranslationObject
+		const current = flattenObject(
+			(this.rootKey
+				? (documentJson[this.rootKey] ?? {})
+				: documentJson) as TranslationObject
+		)
+		const next = flattenObject(json)
+
+		for (const key of current.keys()) {
+			if (!next.has(key)) this.deleteAndPrune([...prefix, ...key.split('.')])
+		}
+		for (const [key, value] of next.entries()) {
+			if (current.get(key) !== value) {
+				this.document.setIn([...prefix, ...key.split('.')], value)
+			}
+		}
+		const root = this.rootKey
+			? this.document.get(this.rootKey)
+			: this.document.contents
+		if (isMap(root)) this.orderLike(root, json)
+		// `[a, b]` stays as written instead of becoming `[ a, b ]`
+		return this.document.toString({ flowCollectionPadding: false })
+	}
+
+	// follows the key order of `json`, which only differs from the document
+	// when the keys were sorted to match the source file
+	private orderLike(map: YAMLMap, json: TranslationObject): void {
+		const keys = Object.keys(json)
+		const getKey = (item: YAMLMap['items'][number]) =>
+			String(isScalar(item.key) ? item.key.value : item.key)
+		const rank = (key: string) => {
+			const index = keys.indexOf(key)
+			return index === -1 ? keys.length : index
+		}
+		map.items.sort((a, b) => rank(getKey(a)) - rank(getKey(b)))
+		for (const item of map.items) {
+			const value = json[getKey(item)]
+			if (isMap(item.value) && typeof value === 'object') {
+				this.orderLike(item.value, value as TranslationObject)
+			}
+		}
+	}
+
+	private deleteAndPrune(path: string[]): void {
+		this.document.deleteIn(path)
+		for (let depth = path.length - 1; depth > 0; depth--) {
+			const parent = this.document.getIn(path.slice(0, depth))
+			if (!isMap(parent) || parent.items.length > 0) return
+			this.document.deleteIn(path.slice(0, depth))
+		}
+	}
+}
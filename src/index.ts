@@ -1,33 +1,50 @@
-#!/usr/bin/env node
-import { patchTranslations, translateJson } from '@/tools/translation.tools'
-
-import { program } from 'commander'
-
-program
-	.name('reusely-translation')
-	.description('A CLI tool for Reusely translation.')
-	.version('1.0.5')
-
-program
-	.command(
-		'patch <path-to-base-translation-file> <path-to-patched-translation-file> <path-to-output-folder>'
-	)
-	.option(
-		'-i, --include-languages <languages>',
-		'comma-separated list of languages to include in translation'
-	)
-	.option(
-		'-e, --exclude-keys <keys>',
-		'comma-separated list of keys to exclude from translation'
-	)
-	.option(
-		'-k, --keep-words <words>',
-		'comma-separated list of words to keep in translation'
-	)
-	.action(patchTranslations)
-
-program
-	.command('translate-json <path-to-translation-file> <output-file-path>')
-	.action(translateJson)
-
-program.parse()
+// Node API, the `gentranslate` command is a thin wrapper around it (cli.ts)
+export {
+	patchTranslations,
+	syncTranslations,
+	translateJson
+} from '@/tools/translation.tools'
+export type {
+	TranslationCommandOptions as TranslationOptions,
+	TranslationInput,
+	TranslationResult
+} from '@/tools/translation.tools'
+export { checkTranslations } from '@/tools/check.tools'
+export { exportReview, importReview } from '@/tools/review.tools'
+export type {
+	RejectedReviewEntry,
+	ReviewImportResult
+} from '@/tools/review.tools'
+export { pseudoTranslations } from '@/tools/pseudo.tools'
+export {
+	Language,
+	TranslationFile,
+	TranslationJson
+} from '@/utilities/translation.utils'
+export {
+	createTranslationProvider,
+	EchoProvider,
+	OpenAICompatibleProvider,
+	OpenRouterProvider
+} from '@/utilities/provider.utils'
+export type {
+	TranslationProvider,
+	TranslationProviderRequest,
+	TranslationProviderResponse,
+	TranslationProviderUsage
+} from '@/utilities/provider.utils'
+export {
+	FatalTranslationError,
+	RetryableTranslationError,
+	TranslationRunError
+} from '@/utilities/error.utils'
+export type { LocaleFailure } from '@/utilities/error.utils'
+export { ConfigError } from '@/utilities/config.utils'
+export type { GentranslateConfig } from '@/utilities/config.utils'
+export { Logger } from '@/utilities/logger.utils'
+export type { LoggerOptions } from '@/utilities/logger.utils'
+export type { TranslationObject } from '@/utilities/format.utils'
+export type { LocaleReport } from '@/utilities/report.utils'
+export type { TranslationPlan } from '@/utilities/plan.utils'
+export type { QualityScore } from '@/utilities/quality.utils'
+export type { CheckReport } from '@/utilities/check.utils'
@@ -0,0 +1,36 @@
+import axios from 'axios'
+import { CONTENT_TYPES } from '@/constants/sink.constants'
+import {
+	expandSinkUrl,
+	SinkDocument,
+	SinkMethod,
+	TranslationSink
+} from '@/utilities/sink.utils'
+
+/**
+ * Uploads the whole serialized locale file, e.g. to
+ * `PUT https://cdn.example.com/locales/{locale}.json`.
+ */
+export class HttpSink implements TranslationSink {
+	public readonly name = 'http'
+
+	constructor(
+		private readonly url: string,
+		private readonly method: SinkMethod = 'PUT',
+		private readonly headers: Record<string, string> = {}
+	) {}
+
+	public async write(document: SinkDocument): Promise<void> {
+		await axios.request({
+			url: expandSinkUrl(this.url, document),
+			method: this.method,
+			data: document.content,
+			headers: {
+				'Content-Type': `${CONTENT_TYPES.get(document.format) ?? 'text/plain'}; charset=utf-8`,
+				...this.headers
+			},
+			// the content is sent verbatim, not re-encoded as JSON
+			transformRequest: (data) => data
+		})
+	}
+}
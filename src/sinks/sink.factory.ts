@@ -0,0 +1,22 @@
+import { HttpSink } from '@/sinks/http.sink'
+import { TmsSink } from '@/sinks/tms.sink'
+import { HttpAuth, resolveHttpHeaders } from '@/utilities/http.utils'
+import { SinkConfig, TranslationSink } from '@/utilities/sink.utils'
+
+export const createTranslationSink = (
+	config: SinkConfig,
+	// HTTP headers shared with URL sources
+	headers: Record<string, string> = {},
+	auth?: HttpAuth
+): TranslationSink => {
+	const sinkHeaders = resolveHttpHeaders(
+		{ ...headers, ...config.headers },
+		config.auth ?? auth
+	)
+	switch (config.type) {
+		case 'http':
+			return new HttpSink(config.url, config.method, sinkHeaders)
+		case 'tms':
+			return new TmsSink(config.url, config.method, sinkHeaders)
+	}
+}
@@ -0,0 +1,42 @@
+import axios from 'axios'
+import {
+	expandSinkUrl,
+	SinkDocument,
+	SinkMethod,
+	TranslationSink
+} from '@/utilities/sink.utils'
+
+/**
+ * Generic REST translation management system adapter in the style of
+ * Lokalise or Crowdin: only the keys set during the run are sent, as
+ *
+ *     { "locale": "de", "translations": { "key": "value" }, "removed": [] }
+ *
+ * Locales without any change are not sent at all.
+ */
+export class TmsSink implements TranslationSink {
+	public readonly name = 'tms'
+
+	constructor(
+		private readonly url: string,
+		private readonly method: SinkMethod = 'POST',
+		private readonly headers: Record<string, string> = {}
+	) {}
+
+	public async write(document: SinkDocument): Promise<void> {
+		const hasChanges =
+			Object.keys(document.translations).length > 0 ||
+			document.removed.length > 0
+		if (!hasChanges) return
+		await axios.request({
+			url: expandSinkUrl(this.url, document),
+			method: this.method,
+			data: {
+				locale: document.locale,
+				translations: document.translations,
+				removed: document.removed
+			},
+			headers: this.headers
+		})
+	}
+}
@@ -0,0 +1,134 @@
+import * as path from 'node:path'
+import { DEFAULT_CHECK_THRESHOLDS } from '@/constants/check.constants'
+import {
+	checkLocale,
+	CheckReport,
+	CheckThresholds,
+	createCheckReport,
+	LocaleCheckResult,
+	writeCheckReport
+} from '@/utilities/check.utils'
+import {
+	ConfigCliOptions,
+	isKeyExcluded,
+	resolveConfig,
+	validateConfig
+} from '@/utilities/config.utils'
+import {
+	createTranslationSource,
+	TranslationJson
+} from '@/utilities/translation.utils'
+import {
+	getLanguageCodeByTranslationJson,
+	getLocaleFiles,
+	getLocaleMode,
+	loadKeyMetadata
+} from '@/tools/translation.tools'
+
+interface CheckCommandOptions extends ConfigCliOptions {
+	// also write the report as JSON to this file
+	output?: string
+	threshold?: string
+}
+
+// "missing=0,untranslated=20" → { missing: 0, untranslated: 20 }
+const parseThresholds = (value?: string): CheckThresholds => {
+	if (!value) return {}
+	const thresholds = Object.fromEntries(
+		value
+			.split(',')
+			.map((entry) => entry.trim())
+			.filter(Boolean)
+			.map((entry) => {
+				const [type, limit] = entry.split('=').map((part) => part.trim())
+				return [type, limit === undefined ? NaN : Number(limit)]
+			})
+	)
+	validateConfig({ checkThresholds: thresholds }, '--threshold')
+	return thresholds
+}
+
+/**
+ * Checks every locale file of a folder against the source file without
+ * calling a provider. The issue types over their threshold are listed in
+ * `exceeded` of the report, printing it is left to the caller.
+ */
+export const checkTranslations = async (
+	sourceFilePath: string,
+	folder: string | undefined,
+	options: CheckCommandOptions = {}
+): Promise<CheckReport> => {
+	const config = await resolveConfig(options)
+	const folderPath = folder ?? config.outputFolder
+	if (!folderPath) {
+		throw new Error(
+			'No locale folder given, pass it as an argument or set "outputFolder" in the config file'
+		)
+	}
+	const thresholds: CheckThresholds = {
+		...DEFAULT_CHECK_THRESHOLDS,
+		...config.checkThresholds,
+		...parseThresholds(options.threshold)
+	}
+
+	const sourceTranslation = await new TranslationJson(
+		createTranslationSource(sourceFilePath, config.httpHeaders, config.httpAuth)
+	).parse()
+	const metadata = loadKeyMetadata(sourceTranslation, config)
+	const source = new Map(
+		Array.from(sourceTranslation.flatten()).filter(
+			([key]) => !metadata.isMetadataKey(key)
+		)
+	)
+	const locales: LocaleCheckResult[] = []
+	for (const file of getLocaleFiles(folderPath, sourceFilePath, config)) {
+		if (path.resolve(file.path) === path.resolve(sourceFilePath)) continue
+		let translation: TranslationJson
+		try {
+			translation = await new TranslationJson(file).parse()
+		} catch (error) {
+			locales.push({
+				path: file.path,
+				issues: [{ type: 'invalid', message: `Could not be parsed: ${error}` }]
+			})
+			continue
+		}
+		const language = getLanguageCodeByTranslationJson(translation)
+		if (!language) {
+			locales.push({
+				path: file.path,
+				issues: [
+					{
+						type: 'unknown-locale',
+						message: `File name "${file.name}" does not map to a known language code`
+					}
+				]
+			})
+			continue
+		}
+		if (language.code === config.sourceLocale) continue
+		const mode = getLocaleMode(config, language.code)
+		if (
+			mode === 'skip' ||
+			(config.targetLocales.length > 0 &&
+				!config.targetLocales.includes(language.code))
+		) {
+			continue
+		}
+		locales.push({
+			path: file.path,
+			locale: language.code,
+			issues: checkLocale(source, translation.flatten(), {
+				code: language.code,
+				sourceLocale: config.sourceLocale,
+				copiesSource: mode === 'copy',
+				keepWords: config.keepWords,
+				isKeyExcluded: (key) => isKeyExcluded(key, config)
+			})
+		})
+	}
+
+	const report = createCheckReport(sourceFilePath, locales, thresholds)
+	if (options.output) writeCheckReport(options.output, report)
+	return report
+}
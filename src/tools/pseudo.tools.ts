@@ -0,0 +1,97 @@
+import {
+	DEFAULT_PSEUDO_EXPANSION,
+	PSEUDO_LOCALE,
+	PSEUDO_RTL_LOCALE
+} from '@/constants/pseudo.constants'
+import {
+	ConfigCliOptions,
+	ConfigError,
+	isKeyExcluded,
+	resolveConfig
+} from '@/utilities/config.utils'
+import { Logger } from '@/utilities/logger.utils'
+import { getLocaleFilePath } from '@/utilities/layout.utils'
+import { normalizeLocaleCode } from '@/utilities/locale.utils'
+import { pseudoLocalize } from '@/utilities/pseudo.utils'
+import {
+	createTranslationSource,
+	TranslationFile,
+	TranslationJson
+} from '@/utilities/translation.utils'
+import { loadKeyMetadata } from '@/tools/translation.tools'
+
+const logger = new Logger()
+
+interface PseudoCommandOptions extends ConfigCliOptions {
+	locale?: string
+	rtl?: boolean
+	expansion?: string
+}
+
+/**
+ * Writes pseudo locales generated from the source file without calling any
+ * provider: `en-XA` (accented, padded and bracketed) and, with `rtl`,
+ * `ar-XB` (right-to-left). Existing pseudo locale files are replaced.
+ */
+export const pseudoTranslations = async (
+	sourceFilePath: string,
+	folder: string | undefined,
+	options: PseudoCommandOptions = {}
+): Promise<Map<string, string>> => {
+	const config = await resolveConfig(options)
+	const folderPath = folder ?? config.outputFolder
+	if (!folderPath) {
+		throw new Error(
+			'No output folder given, pass it as an argument or set "outputFolder" in the config file'
+		)
+	}
+	const expansion =
+		options.expansion === undefined
+			? DEFAULT_PSEUDO_EXPANSION
+			: Number(options.expansion)
+	if (!Number.isFinite(expansion) || expansion < 0) {
+		throw new ConfigError('--expansion', ['must be a non-negative number'])
+	}
+
+	logger.log('INFO', `Loading source translation from ${sourceFilePath}`)
+	const source = await new TranslationJson(
+		createTranslationSource(sourceFilePath, config.httpHeaders, config.httpAuth)
+	).parse()
+	const metadata = loadKeyMetadata(source, config)
+	const entries = Array.from(source.flatten()).filter(
+		([key]) => !metadata.isMetadataKey(key) && !isKeyExcluded(key, config)
+	)
+
+	const locales = [
+		{ code: normalizeLocaleCode(options.locale ?? PSEUDO_LOCALE), rtl: false },
+		...(options.rtl ? [{ code: PSEUDO_RTL_LOCALE, rtl: true }] : [])
+	]
+	const written = new Map<string, string>()
+	for (const { code, rtl } of locales) {
+		const translationPath = getLocaleFilePath(
+			folderPath,
+			sourceFilePath,
+			code,
+			config.sourceLocale,
+			config.pathTemplate
+		)
+		const translation = new TranslationJson(
+			new TranslationFile(translationPath, '', code)
+		)
+			.useStructureOf(source)
+			.useLayoutOf(source)
+		for (const [key, value] of entries) {
+			translation
+				.setValue(key, pseudoLocalize(value, { expansion, rtl }))
+				.setSourceValue(key, value)
+				.copyMetadataFrom(source, key)
+		}
+		logger.log(
+			'INFO',
+			`Writing ${entries.length} pseudo-localized keys to ${translationPath}`
+		)
+		translation.setLocale(code).write()
+		written.set(code, translationPath)
+	}
+	return written
+}
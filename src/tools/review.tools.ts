@@ -0,0 +1,337 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import {
+	DEFAULT_REVIEW_FOLDER,
+	REVIEW_FORMATS
+} from '@/constants/review.constants'
+import {
+	ConfigCliOptions,
+	ConfigError,
+	GentranslateConfig,
+	resolveConfig
+} from '@/utilities/config.utils'
+import { Logger } from '@/utilities/logger.utils'
+import {
+	getReviewFileExtension,
+	getReviewFormat,
+	parseReview,
+	ReviewEntry,
+	ReviewFormat,
+	serializeReview
+} from '@/utilities/review.utils'
+import {
+	createTranslationSource,
+	TranslationJson
+} from '@/utilities/translation.utils'
+import {
+	validateLength,
+	validateTranslation
+} from '@/utilities/validation.utils'
+import { KeyMetadata } from '@/utilities/metadata.utils'
+import {
+	getLanguageCodeByTranslationJson,
+	getLocaleFiles,
+	getLockLocaleOf,
+	loadKeyMetadata,
+	loadTranslationLock
+} from '@/tools/translation.tools'
+
+const logger = new Logger()
+
+interface ReviewCommandOptions extends ConfigCliOptions {
+	format?: string
+	output?: string
+	lockFile?: string
+	// only the keys flagged by the quality check
+	flagged?: boolean
+	// import translations failing placeholder or ICU validation anyway
+	force?: boolean
+}
+
+export interface RejectedReviewEntry {
+	reviewFile: string
+	locale: string
+	key: string
+	issues: string[]
+}
+
+export interface ReviewImportResult {
+	// keys applied, by locale file path
+	imported: Map<string, string[]>
+	// entries left out for failing placeholder or ICU validation
+	rejected: RejectedReviewEntry[]
+}
+
+const resolveLocaleFolder = (
+	folder: string | undefined,
+	config: GentranslateConfig
+): string => {
+	const folderPath = folder ?? config.outputFolder
+	if (!folderPath) {
+		throw new Error(
+			'No locale folder given, pass it as an argument or set "outputFolder" in the config file'
+		)
+	}
+	return folderPath
+}
+
+// translatable source values and the metadata of their keys
+const loadSource = async (
+	sourceFilePath: string,
+	config: GentranslateConfig
+): Promise<{ values: Map<string, string>; metadata: KeyMetadata }> => {
+	const source = await new TranslationJson(
+		createTranslationSource(sourceFilePath, config.httpHeaders, config.httpAuth)
+	).parse()
+	const metadata = loadKeyMetadata(source, config)
+	return {
+		values: new Map(
+			Array.from(source.flatten()).filter(
+				([key]) => !metadata.isMetadataKey(key)
+			)
+		),
+		metadata
+	}
+}
+
+interface LocaleFile {
+	code: string
+	// path relative to the locale folder, the `original` of XLIFF files
+	name: string
+	// file name of its review file, `de` or `de.common` with namespaces
+	reviewName: string
+	lockLocale: string
+	translation: TranslationJson
+}
+
+// target locale files of the folder, by path
+const loadLocales = async (
+	folderPath: string,
+	sourceFilePath: string,
+	config: GentranslateConfig
+): Promise<Map<string, LocaleFile>> => {
+	const locales = new Map<string, LocaleFile>()
+	for (const file of getLocaleFiles(folderPath, sourceFilePath, config)) {
+		if (path.resolve(file.path) === path.resolve(sourceFilePath)) continue
+		const translation = await new TranslationJson(file).parse()
+		const language = getLanguageCodeByTranslationJson(translation)
+		if (!language || language.code === config.sourceLocale) continue
+		if (
+			config.targetLocales.length > 0 &&
+			!config.targetLocales.includes(language.code)
+		) {
+			continue
+		}
+		locales.set(file.path, {
+			code: language.code,
+			name: file.name || path.basename(file.path),
+			reviewName:
+				file.namespace === undefined
+					? language.code
+					: `${language.code}.${file.namespace}`,
+			lockLocale: getLockLocaleOf(translation, language.code),
+			translation
+		})
+	}
+	return locales
+}
+
+/**
+ * Writes the machine translations no human has reviewed yet to one XLIFF or
+ * CSV file per locale file, with their source text and context.
+ */
+export const exportReview = async (
+	sourceFilePath: string,
+	folder: string | undefined,
+	options: ReviewCommandOptions = {}
+): Promise<Map<string, ReviewEntry[]>> => {
+	const config = await resolveConfig(options)
+	const folderPath = resolveLocaleFolder(folder, config)
+	const format = (options.format ?? 'xliff') as ReviewFormat
+	if (!REVIEW_FORMATS.includes(format)) {
+		throw new ConfigError('--format', [
+			`must be one of: ${REVIEW_FORMATS.join(', ')}`
+		])
+	}
+	const outputPath = options.output ?? DEFAULT_REVIEW_FOLDER
+	const { values: source, metadata } = await loadSource(sourceFilePath, config)
+	const lock = loadTranslationLock(folderPath, options)
+
+	const exported = new Map<string, ReviewEntry[]>()
+	for (const [
+		filePath,
+		{ code, name, reviewName, lockLocale, translation }
+	] of await loadLocales(folderPath, sourceFilePath, config)) {
+		const existing = translation.flatten()
+		const pending = new Set(
+			options.flagged
+				? lock.getFlaggedKeys(lockLocale)
+				: lock.getPendingKeys(lockLocale)
+		)
+		// keys whose source changed since are translated again first
+		const entries = Array.from(source)
+			.filter(
+				([key, value]) =>
+					pending.has(key) &&
+					existing.has(key) &&
+					lock.isCurrent(lockLocale, key, value)
+			)
+			.map(([key, value]) => ({
+				key,
+				source: value,
+				translation: existing.get(key) as string,
+				context: metadata.get(key)?.description ?? config.domainContext
+			}))
+		if (entries.length === 0) continue
+
+		const reviewPath = path.join(
+			outputPath,
+			`${reviewName}${getReviewFileExtension(format)}`
+		)
+		fs.mkdirSync(outputPath, { recursive: true })
+		fs.writeFileSync(
+			reviewPath,
+			serializeReview(
+				{
+					sourceLocale: config.sourceLocale,
+					locale: code,
+					original: name,
+					entries
+				},
+				format
+			)
+		)
+		logger.log(
+			'INFO',
+			`Exported ${entries.length} keys waiting for review to ${reviewPath}`
+		)
+		exported.set(filePath, entries)
+	}
+	if (exported.size === 0) {
+		logger.log('INFO', `No machine translations are waiting for review`)
+	}
+	return exported
+}
+
+const getReviewFiles = (reviewPath: string): string[] => {
+	if (!fs.statSync(reviewPath).isDirectory()) return [reviewPath]
+	return fs
+		.readdirSync(reviewPath)
+		.filter((file) => getReviewFormat(file) !== undefined)
+		.map((file) => path.join(reviewPath, file))
+}
+
+/**
+ * Applies reviewed XLIFF or CSV files to the locale files and marks their
+ * keys as reviewed, later runs keep them until their source text changes.
+ * Entries whose source changed since the export are skipped, and entries
+ * breaking a placeholder or ICU argument are rejected unless `force` is set.
+ */
+export const importReview = async (
+	sourceFilePath: string,
+	reviewPath: string,
+	folder: string | undefined,
+	options: ReviewCommandOptions = {}
+): Promise<ReviewImportResult> => {
+	const config = await resolveConfig(options)
+	const folderPath = resolveLocaleFolder(folder, config)
+	const { values: source, metadata } = await loadSource(sourceFilePath, config)
+	const locales = await loadLocales(folderPath, sourceFilePath, config)
+	const lock = loadTranslationLock(folderPath, options)
+
+	const imported = new Map<string, string[]>()
+	const rejected: RejectedReviewEntry[] = []
+	for (const reviewFile of getReviewFiles(reviewPath)) {
+		const format = getReviewFormat(reviewFile)
+		if (!format) {
+			throw new Error(
+				`Unsupported review file "${reviewFile}", expected .xlf, .xliff or .csv`
+			)
+		}
+		const document = parseReview(fs.readFileSync(reviewFile, 'utf-8'), format)
+		const reviewName = path.basename(reviewFile, path.extname(reviewFile))
+		// CSV files only have their name, `de` or `de.common`
+		const code = document.locale ?? reviewName.split('.')[0]
+		const localeFile = Array.from(locales).find(
+			([, file]) =>
+				file.code === code &&
+				(document.original === undefined
+					? file.reviewName === reviewName
+					: file.name === document.original)
+		)
+		if (!localeFile) {
+			logger.log(
+				'WARN',
+				`Skipping ${reviewFile}, no locale file for "${reviewName}" in ${folderPath}`
+			)
+			continue
+		}
+		const [filePath, { translation, lockLocale }] = localeFile
+
+		const applied: string[] = []
+		for (const entry of document.entries) {
+			const sourceValue = source.get(entry.key)
+			const skip = (reason: string) =>
+				logger.log('WARN', `Skipping ${code} key ${entry.key}: ${reason}`)
+			if (sourceValue === undefined) {
+				skip('no longer in the source file')
+				continue
+			}
+			if (sourceValue !== entry.source) {
+				skip('its source text changed since the export')
+				continue
+			}
+			if (entry.translation.trim().length === 0) {
+				skip('the translation is empty')
+				continue
+			}
+			const maxLength = metadata.get(entry.key)?.maxLength
+			const issues = [
+				...validateTranslation(sourceValue, entry.translation, code),
+				...(maxLength ? validateLength(entry.translation, maxLength) : [])
+			]
+			// a broken placeholder breaks the app at runtime, other issues are
+			// left to the reviewer
+			const breaking = issues.filter(
+				(issue) => issue.type === 'placeholder' || issue.type === 'icu'
+			)
+			if (breaking.length > 0 && !options.force) {
+				logger.log(
+					'WARN',
+					`Rejecting ${code} key ${entry.key}: ${breaking.map((issue) => issue.message).join('; ')}`
+				)
+				rejected.push({
+					reviewFile,
+					locale: code,
+					key: entry.key,
+					issues: breaking.map((issue) => issue.message)
+				})
+				continue
+			}
+			for (const issue of issues) {
+				logger.log('WARN', `${code} key ${entry.key}: ${issue.message}`)
+			}
+			translation
+				.setValue(entry.key, entry.translation)
+				.setSourceValue(entry.key, sourceValue)
+			lock
+				.set(lockLocale, entry.key, sourceValue)
+				.setReviewStatus(lockLocale, entry.key, 'reviewed')
+			applied.push(entry.key)
+		}
+		translation.write()
+		logger.log(
+			'INFO',
+			`Imported ${applied.length} of ${document.entries.length} reviewed keys from ${reviewFile}`
+		)
+		imported.set(filePath, applied)
+	}
+	lock.save()
+	if (rejected.length > 0) {
+		logger.log(
+			'WARN',
+			`Rejected ${rejected.length} reviewed keys failing placeholder or ICU validation, fix them or import them with --force`
+		)
+	}
+	return { imported, rejected }
+}
@@ -1,67 +1,620 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
 import { Logger } from '@/utilities/logger.utils'
 import {
+	findLocaleFiles,
+	getLocaleCodeCandidates,
+	getLocaleFilePath,
+	getTemplateNamespace,
+	hasNamespace
+} from '@/utilities/layout.utils'
+import {
+	createTranslationSource,
 	getTranslationFilesFromPath,
 	Language,
 	LLMTranslation,
+	TranslationDiff,
 	TranslationFile,
 	TranslationJson,
 	TranslationKeyValue
 } from '@/utilities/translation.utils'
+import type { TranslationObject } from '@/utilities/format.utils'
 import { SafeAsync } from '@/utilities/common.utils'
+import { isUrl } from '@/utilities/http.utils'
+import { createTranslationSink } from '@/sinks/sink.factory'
+import { SinkDocument, TranslationSink } from '@/utilities/sink.utils'
+import {
+	describeError,
+	isProviderSetupError,
+	LocaleFailure
+} from '@/utilities/error.utils'
+import {
+	createTranslationProvider,
+	TranslationProvider
+} from '@/utilities/provider.utils'
+import {
+	ConfigCliOptions,
+	ConfigError,
+	GentranslateConfig,
+	isKeyExcluded,
+	LocaleMode,
+	resolveConfig
+} from '@/utilities/config.utils'
+import { ValidationReport } from '@/utilities/validation.utils'
+import {
+	getMergeBase,
+	readFileAtCommit,
+	resolveCommit
+} from '@/utilities/git.utils'
+import { TermBase } from '@/utilities/termbase.utils'
+import { KeyMetadata } from '@/utilities/metadata.utils'
+import {
+	estimateCost,
+	formatPlans,
+	TranslationPlan,
+	writePlans
+} from '@/utilities/plan.utils'
+import {
+	hashText,
+	TRANSLATION_MEMORY_FILE_NAME,
+	TranslationMemory
+} from '@/utilities/memory.utils'
+import {
+	getLockLocale,
+	TRANSLATION_LOCK_FILE_NAME,
+	TranslationLock
+} from '@/utilities/lock.utils'
+import {
+	createIcuPlural,
+	expandIcuPlural,
+	getPluralGroupKey,
+	getPluralKey,
+	groupPluralVariants,
+	parsePluralKey,
+	PLURAL_CATEGORIES,
+	PluralGroup
+} from '@/utilities/plural.utils'
+import { Scheduler } from '@/utilities/scheduler.utils'
+import {
+	createUsageStats,
+	LocaleReport,
+	RunReport
+} from '@/utilities/report.utils'
+import {
+	assessQuality,
+	QualityEntry,
+	QualityReport,
+	QualityScore
+} from '@/utilities/quality.utils'
+import { FILE_CONCURRENCY } from '@/constants/config.constants'
+import { PSEUDO_LOCALES } from '@/constants/pseudo.constants'
+import {
+	TranslationCheckpoint,
+	TRANSLATION_CHECKPOINT_FILE_NAME
+} from '@/utilities/checkpoint.utils'
 
 const logger = new Logger()
 
+const createScheduler = (config: GentranslateConfig): Scheduler =>
+	new Scheduler({
+		maxConcurrency: config.concurrency,
+		requestsPerMinute: config.requestsPerMinute,
+		tokensPerMinute: config.tokensPerMinute
+	})
+
 const getTranslationJsonFromFiles = async (
 	files: TranslationFile[]
 ): Promise<TranslationJson[]> => {
-	let result = []
-	let queue: Promise<any>[] = []
-	for (const file of files) {
-		const isMaxConcurrency = queue.length % 10 === 0 && queue.length > 0
-		if (isMaxConcurrency) {
-			result.push(await Promise.allSettled(queue))
-			queue = []
+	const scheduler = new Scheduler({ maxConcurrency: FILE_CONCURRENCY })
+	const result = await Promise.allSettled(
+		files.map((file) => scheduler.run(() => new TranslationJson(file).parse()))
+	)
+	return result.filter((r) => r.status === 'fulfilled').map((r) => r.value)
+}
+
+const getTranslationPath = (translation: TranslationJson) =>
+	translation.source instanceof TranslationFile
+		? translation.source.path
+		: translation.source.url
+
+export const getLanguageCodeByTranslationJson = (
+	translation: TranslationJson
+) => {
+	const candidates =
+		translation.source instanceof TranslationFile && translation.source.locale
+			? [translation.source.locale]
+			: getLocaleCodeCandidates(getTranslationPath(translation))
+	for (const code of candidates) {
+		const language = Language.getLanguageByCode(code)
+		if (language) return language
+	}
+	return undefined
+}
+
+/**
+ * Locale files of the folder, with a `{namespace}` path template only the
+ * ones of the namespace of the source file.
+ */
+export const getLocaleFiles = (
+	folderPath: string,
+	sourcePath: string,
+	config: GentranslateConfig
+): TranslationFile[] =>
+	getTranslationFilesFromPath(
+		folderPath,
+		config.pathTemplate,
+		config.pathTemplate &&
+			getTemplateNamespace(config.pathTemplate, folderPath, sourcePath)
+	)
+
+const loadTranslationMemory = (
+	outputFolderPath: string,
+	options: { memory?: boolean; memoryFile?: string }
+): TranslationMemory | undefined => {
+	if (options.memory === false) return undefined
+	const memoryPath =
+		options.memoryFile ?? `${outputFolderPath}/${TRANSLATION_MEMORY_FILE_NAME}`
+	logger.log('INFO', `Loading translation memory from ${memoryPath}`)
+	return new TranslationMemory(memoryPath).load()
+}
+
+/**
+ * Key metadata of the source file, overridden by the metadata file of the
+ * config when there is one.
+ */
+export const loadKeyMetadata = (
+	source: TranslationJson,
+	config: GentranslateConfig
+): KeyMetadata => {
+	const metadata = KeyMetadata.fromSource(source.json, {
+		descriptionKeys: config.descriptionKeys
+	}).merge(KeyMetadata.fromFormat(source.format, source.flatten().keys()))
+	if (!config.metadataFile) return metadata
+	logger.log('INFO', `Loading key metadata from ${config.metadataFile}`)
+	return metadata.merge(KeyMetadata.load(config.metadataFile))
+}
+
+export const loadTranslationLock = (
+	outputFolderPath: string,
+	options: { lockFile?: string }
+): TranslationLock => {
+	const lockPath =
+		options.lockFile ?? `${outputFolderPath}/${TRANSLATION_LOCK_FILE_NAME}`
+	logger.log('INFO', `Loading lockfile from ${lockPath}`)
+	return new TranslationLock(lockPath).load()
+}
+
+const createProvider = (
+	config: GentranslateConfig,
+	options: TranslationCommandOptions
+): TranslationProvider => {
+	const provider =
+		typeof options.provider === 'object'
+			? options.provider
+			: createTranslationProvider({
+					provider: config.provider,
+					model: config.model,
+					baseUrl: config.baseUrl,
+					apiKey: options.apiKey
+				})
+	logger.log(
+		'INFO',
+		`Using translation provider ${provider.name} with model ${provider.model}`
+	)
+	return provider
+}
+
+const createSink = (
+	config: GentranslateConfig
+): TranslationSink | undefined => {
+	if (!config.sink) return undefined
+	const sink = createTranslationSink(
+		config.sink,
+		config.httpHeaders,
+		config.httpAuth
+	)
+	logger.log(
+		'INFO',
+		`Publishing locale files to ${sink.name} sink ${config.sink.url}`
+	)
+	return sink
+}
+
+const createSinkDocument = (
+	translation: TranslationJson,
+	locale: string,
+	removed: string[]
+): SinkDocument => {
+	const values = translation.flatten()
+	return {
+		locale,
+		path: getTranslationPath(translation),
+		format: translation.format.name,
+		content: translation.serialize(),
+		translations: Object.fromEntries(
+			translation
+				.getChangedKeys()
+				.filter((key) => values.has(key))
+				.map((key) => [key, values.get(key) as string])
+		),
+		removed
+	}
+}
+
+const getLLMTranslationOptions = (config: GentranslateConfig) => {
+	if (config.termBase) {
+		logger.log('INFO', `Loading term base from ${config.termBase}`)
+	}
+	return {
+		sourceLanguage:
+			Language.getLanguageByCode(config.sourceLocale)?.name ??
+			config.sourceLocale,
+		keepWords: config.keepWords,
+		glossary: config.glossary,
+		domainContext: config.domainContext,
+		termBase: config.termBase ? TermBase.load(config.termBase) : undefined
+	}
+}
+
+// pseudo locales are generated by the pseudo command, never translated
+export const getLocaleMode = (
+	config: GentranslateConfig,
+	code: string
+): LocaleMode =>
+	config.locales?.[code]?.mode ??
+	(PSEUDO_LOCALES.includes(code) ? 'skip' : 'translate')
+
+/**
+ * Language as named in the prompt, with the name and script overrides of
+ * the `locales` config, e.g. `Serbian (Latin script)`.
+ */
+const getPromptLanguage = (
+	language: { code: string; name: string },
+	config: GentranslateConfig
+): { code: string; name: string } => {
+	const override = config.locales?.[language.code]
+	const name = override?.name ?? language.name
+	return {
+		code: language.code,
+		name: override?.script ? `${name} (${override.script} script)` : name
+	}
+}
+
+/**
+ * Replaces i18next plural variants (`items_one`, `items_other`) by a single
+ * ICU plural message so the LLM sees the forms together and can answer with
+ * the categories of the target language.
+ */
+const groupPluralEntries = (entries: TranslationKeyValue[]) => {
+	const { groups, singles } = groupPluralVariants(entries)
+	return {
+		groups: new Map(groups.map((group) => [group.key, group])),
+		entries: [
+			...singles,
+			...groups.map(
+				(group) =>
+					new TranslationKeyValue(
+						group.key,
+						createIcuPlural(
+							new Map(
+								Array.from(group.variants, ([category, entry]) => [
+									category,
+									entry.value
+								])
+							),
+							group.type
+						)
+					)
+			)
+		]
+	}
+}
+
+/**
+ * Writes the forms of a translated plural message as the i18next keys of
+ * the target language's categories and drops the categories it does not use.
+ */
+const applyPluralTranslation = (
+	translation: TranslationJson,
+	group: PluralGroup<TranslationKeyValue>,
+	value: string,
+	languageCode: string
+) => {
+	const forms = expandIcuPlural(
+		group.base,
+		group.type,
+		value,
+		Object.fromEntries(
+			Array.from(group.variants, ([category, entry]) => [category, entry.value])
+		),
+		languageCode
+	)
+	for (const form of forms) {
+		translation
+			.setValue(form.key, form.value)
+			.setSourceValue(form.key, form.sourceValue)
+	}
+	const keys = new Set(forms.map((form) => form.key))
+	for (const category of PLURAL_CATEGORIES) {
+		const key = getPluralKey(group.base, group.type, category)
+		if (!keys.has(key)) translation.removeValue(key)
+	}
+}
+
+/**
+ * Plural forms are translated together: a change to one form re-translates
+ * its siblings, and forms removed from the source stay in the locales while
+ * the plural itself still exists, as other languages may need them.
+ */
+const expandPluralVariants = (
+	diff: TranslationDiff,
+	source: Map<string, string>
+): TranslationDiff => {
+	const touched = new Set(
+		diff.translatable.flatMap((entry) => {
+			const pluralKey = parsePluralKey(entry.key)
+			return pluralKey
+				? [getPluralGroupKey(pluralKey.base, pluralKey.type)]
+				: []
+		})
+	)
+	const included = new Set(diff.translatable.map((entry) => entry.key))
+	const siblings = Array.from(source.entries())
+		.filter(([key]) => {
+			const pluralKey = parsePluralKey(key)
+			return (
+				pluralKey !== undefined &&
+				!included.has(key) &&
+				touched.has(getPluralGroupKey(pluralKey.base, pluralKey.type))
+			)
+		})
+		.map(([key, value]) => new TranslationKeyValue(key, value))
+	const removed = diff.removed.filter((entry) => {
+		const pluralKey = parsePluralKey(entry.key)
+		return (
+			!pluralKey ||
+			!source.has(getPluralKey(pluralKey.base, pluralKey.type, 'other'))
+		)
+	})
+	return new TranslationDiff(
+		diff.added,
+		[...diff.changed, ...siblings],
+		removed
+	)
+}
+
+// one value for every locale file, or a value per locale file (sync, namespaces)
+type PerLocaleFile<T> = T | ((translation: TranslationJson) => T)
+
+type PatchDiff = PerLocaleFile<TranslationDiff>
+
+const resolvePerLocaleFile = <T>(
+	value: PerLocaleFile<T>,
+	translation: TranslationJson
+): T =>
+	typeof value === 'function'
+		? (value as (translation: TranslationJson) => T)(translation)
+		: value
+
+/**
+ * Diff of one locale file, without the keys a human reviewed since their
+ * source text last changed.
+ */
+const resolveDiff = (
+	patchDiff: PatchDiff,
+	translation: TranslationJson,
+	lockLocale: string,
+	lock?: TranslationLock
+): TranslationDiff => {
+	const diff =
+		patchDiff instanceof TranslationDiff ? patchDiff : patchDiff(translation)
+	if (!lock) return diff
+	const isNotReviewed = (entry: TranslationKeyValue) =>
+		!lock.isReviewed(lockLocale, entry.key, entry.value)
+	const reviewed = diff.translatable.filter((entry) => !isNotReviewed(entry))
+	if (reviewed.length === 0) return diff
+	logger.log(
+		'INFO',
+		`Keeping ${reviewed.length} reviewed keys of ${getTranslationPath(translation)}: ${reviewed.map((entry) => entry.key).join(', ')}`
+	)
+	return new TranslationDiff(
+		diff.added.filter(isNotReviewed),
+		diff.changed.filter(isNotReviewed),
+		diff.removed
+	)
+}
+
+interface QualityCandidate extends QualityEntry {
+	// lockfile keys of the entry, every variant of a plural message
+	keys: string[]
+}
+
+/**
+ * Back-translates the translations of a run into the source language and
+ * scores them. Flagged translations stay pending in the lockfile as
+ * `flagged`, a failed back-translation leaves only the local checks.
+ */
+const checkTranslationQuality = async (
+	candidates: Map<
+		string,
+		{
+			language: { code: string; name: string }
+			lockLocale: string
+			entries: QualityCandidate[]
 		}
-		queue.push(new TranslationJson(file).parse())
+	>,
+	options: {
+		provider: TranslationProvider
+		config: GentranslateConfig
+		scheduler: Scheduler
+		lock?: TranslationLock
+		reportPath?: string
 	}
-	const hasQueueUnprocessed = queue.length > 0
-	if (hasQueueUnprocessed) {
-		result.push(await Promise.allSettled(queue))
+): Promise<QualityReport> => {
+	const { provider, config, scheduler, lock } = options
+	const sourceLanguage = Language.getLanguageByCode(config.sourceLocale) ?? {
+		code: config.sourceLocale,
+		name: config.sourceLocale
 	}
-	return result.flatMap((r) =>
-		r.filter((r) => r.status === 'fulfilled').map((r) => r.value)
+	const report = new QualityReport()
+	const usage = createUsageStats()
+	await Promise.all(
+		Array.from(
+			candidates.values(),
+			async ({ language, lockLocale, entries }) => {
+				if (entries.length === 0) return
+				const validationReport = new ValidationReport()
+				const backTranslation = new LLMTranslation(sourceLanguage, provider, {
+					sourceLanguage: getPromptLanguage(language, config).name,
+					keepWords: config.keepWords,
+					domainContext: config.domainContext,
+					// glossary terms are given for the other direction
+					glossary: {},
+					validationReport,
+					scheduler
+				})
+				logger.log(
+					'INFO',
+					`Back-translating ${entries.length} ${language.name} translations`
+				)
+				const backTranslations = new Map<string, string>()
+				try {
+					const translated = await backTranslation.translate(
+						entries.map(
+							(entry) => new TranslationKeyValue(entry.key, entry.translation)
+						),
+						{ batchSize: config.batchSize }
+					)
+					// a fallback is the translation itself, not a back-translation
+					const fallbackKeys = new Set(
+						validationReport.failures
+							.filter((failure) => failure.fallback)
+							.map((failure) => failure.key)
+					)
+					for (const entry of translated ?? []) {
+						if (!fallbackKeys.has(entry.key)) {
+							backTranslations.set(entry.key, entry.value)
+						}
+					}
+				} catch (error) {
+					logger.log(
+						'WARN',
+						`Back-translation of ${language.name} failed, only the length and script checks apply: ${describeError(error)}`
+					)
+				}
+				for (const [field, value] of Object.entries(backTranslation.stats)) {
+					usage[field as keyof typeof usage] += value
+				}
+
+				const scores = assessQuality(
+					entries.map(({ key, source, translation }) => ({
+						key,
+						source,
+						translation,
+						backTranslation: backTranslations.get(key)
+					})),
+					{
+						locale: language.code,
+						sourceLocale: config.sourceLocale,
+						threshold: config.qualityThreshold,
+						script: config.locales?.[language.code]?.script
+					}
+				)
+				report.add(scores)
+				scores.forEach((score, index) => {
+					if (score.flags.length === 0) return
+					logger.log(
+						'DEBUG',
+						`Flagged ${language.code} ${score.key} (${score.flags.join(', ')}): ${score.translation}`
+					)
+					for (const key of entries[index].keys) {
+						lock?.setReviewStatus(lockLocale, key, 'flagged')
+					}
+				})
+				logger.log(
+					'INFO',
+					`Quality check of ${language.name}: ${scores.filter((score) => score.flags.length > 0).length}/${scores.length} translations flagged for review`
+				)
+			}
+		)
 	)
+	lock?.save()
+
+	const averageSimilarity = report.averageSimilarity
+	logger.log(
+		report.flagged.length > 0 ? 'WARN' : 'INFO',
+		`${report.flagged.length} of ${report.scores.length} translations flagged by the quality check${averageSimilarity === undefined ? '' : `, average back-translation similarity ${averageSimilarity.toFixed(2)}`}`
+	)
+	if (options.reportPath) {
+		logger.log('INFO', `Writing quality report to ${options.reportPath}`)
+		report.write(options.reportPath, {
+			provider: provider.name,
+			model: provider.model,
+			threshold: config.qualityThreshold,
+			usage
+		})
+	}
+	return report
 }
 
-const getLanguageCodeByTranslationJson = (translation: TranslationJson) => {
-	const filePath =
-		translation.source instanceof TranslationFile
-			? translation.source.path
-			: translation.source.url
-	const fileName = filePath.split('/').pop()
-	if (!fileName) return undefined
-	return Language.getLanguageByCode(fileName.replace('.json', ''))
+// removing a whole plural also removes the categories only other languages use
+const removeTranslationKey = (translation: TranslationJson, key: string) => {
+	const pluralKey = parsePluralKey(key)
+	if (!pluralKey) {
+		translation.removeValue(key)
+		return
+	}
+	for (const category of PLURAL_CATEGORIES) {
+		translation.removeValue(
+			getPluralKey(pluralKey.base, pluralKey.type, category)
+		)
+	}
 }
 
 const translatePatch = async (
 	translations: TranslationJson[],
-	diff: TranslationKeyValue[],
-	options: { batchSize?: number; keepWords?: string[] } = {
-		batchSize: 10,
-		keepWords: []
+	patchDiff: PatchDiff,
+	options: {
+		provider: TranslationProvider
+		config: GentranslateConfig
+		validationReportPath?: string
+		reportPath?: string
+		qualityReportPath?: string
+		memory?: TranslationMemory
+		lock?: TranslationLock
+		metadata?: PerLocaleFile<KeyMetadata | undefined>
+		// source file, locale files follow its key order and metadata
+		source?: PerLocaleFile<TranslationJson | undefined>
+		// receives every locale file once it has been written
+		sink?: TranslationSink
+		// called once a locale file has been written and published
+		onLocaleWritten?: (code: string) => void
+	}
+): Promise<TranslationResult> => {
+	const { provider, config, validationReportPath, memory, lock, sink } = options
+	const llmTranslationOptions = getLLMTranslationOptions(config)
+	const validationReport = new ValidationReport()
+	const runReport = new RunReport()
+	const scheduler = createScheduler(config)
+	const tasks: Promise<LocaleFailure | undefined>[] = []
+	// translations by locale file path, back-translated once the run is over
+	const qualityCandidates = new Map<
+		string,
+		{
+			language: { code: string; name: string }
+			lockLocale: string
+			entries: QualityCandidate[]
+		}
+	>()
+	const retryPolicy = {
+		retries: config.retries,
+		baseDelayMs: config.retryDelay
 	}
-) => {
-	const { batchSize = 10, keepWords = [] } = options
-	const translationDiffKeys = diff.map((d) => d.key).join(', ')
-	let queue: Promise<any>[] = []
 	let completed = 0
 
 	for (const translation of translations) {
 		const language = getLanguageCodeByTranslationJson(translation)
-		const translationPath =
-			translation.source instanceof TranslationFile
-				? translation.source.path
-				: translation.source.url
+		const translationPath = getTranslationPath(translation)
 		if (!language) {
 			logger.log(
 				'WARN',
@@ -69,36 +622,130 @@ const translatePatch = async (
 			)
 			continue
 		}
+		const mode = getLocaleMode(config, language.code)
+		if (mode === 'skip') {
+			logger.log('INFO', `Skipping ${translationPath}, its locale is skipped`)
+			continue
+		}
 
-		logger.log(
-			'INFO',
-			`Translating key-value pairs for ${translationPath} on these keys: ${translationDiffKeys}`
+		const source = resolvePerLocaleFile(options.source, translation)
+		const lockLocale = getLockLocaleOf(translation, language.code)
+		const diff = resolveDiff(patchDiff, translation, lockLocale, lock)
+		const { groups: pluralGroups, entries: translatable } = groupPluralEntries(
+			diff.translatable
 		)
-
-		if (queue.length % batchSize === 0 && queue.length > 0) {
-			completed += queue.length
-			const progressPercentage = Math.round(
-				(completed / translations.length) * 100
-			)
-			logger.log('INFO', `Translation progress: ${progressPercentage}%`)
+		const sourceValues = new Map(translatable.map((t) => [t.key, t.value]))
+		const translationDiffKeys = diff.translatable.map((d) => d.key).join(', ')
+		if (translatable.length > 0) {
 			logger.log(
 				'INFO',
-				`Waiting for ${queue.length} tasks to complete before proceeding`
+				`${mode === 'copy' ? 'Copying source values' : 'Translating key-value pairs'} for ${translationPath} on these keys: ${translationDiffKeys}`
 			)
-			await Promise.all(queue)
-			queue = []
 		}
 
-		queue.push(
-			new SafeAsync(async (): Promise<void> => {
-				const translates = await new LLMTranslation(
-					language,
-					keepWords
-				).translate(diff)
+		const startedAt = Date.now()
+		// usage of every attempt of the locale file
+		const stats = createUsageStats()
+		let translatedKeys = 0
+		let isWritten = false
+		// every locale is queued at once, the scheduler bounds the requests
+		const safeTask = new SafeAsync(
+			async (): Promise<void> => {
+				translatedKeys = 0
+				const qualityEntries: QualityCandidate[] = []
+				// fallbacks of a failed attempt do not carry over to the next, and
+				// the same key may fall back in one namespace and not in another
+				const fileValidationReport = new ValidationReport()
+				const llmTranslation = new LLMTranslation(
+					getPromptLanguage(language, config),
+					provider,
+					{
+						...llmTranslationOptions,
+						validationReport: fileValidationReport,
+						memory,
+						scheduler,
+						metadata: resolvePerLocaleFile(options.metadata, translation)
+					}
+				)
+				let translates: TranslationKeyValue[] | undefined
+				try {
+					translates =
+						mode === 'copy'
+							? translatable.map((t) => new TranslationKeyValue(t.key, t.value))
+							: translatable.length > 0
+								? await llmTranslation.translate(translatable, {
+										batchSize: config.batchSize
+									})
+								: []
+				} finally {
+					for (const [field, value] of Object.entries(llmTranslation.stats)) {
+						stats[field as keyof typeof stats] += value
+					}
+				}
 
+				// source fallbacks are not real translations, sync retries them
+				const fallbackKeys = new Set(
+					fileValidationReport.failures
+						.filter((f) => f.fallback)
+						.map((f) => f.key)
+				)
 				if (translates) {
 					for (const translated of translates) {
-						translation.setValue(translated.key, translated.value)
+						const isFallback = fallbackKeys.has(translated.key)
+						const record = (key: string, sourceValue: string) => {
+							if (!isFallback) translatedKeys++
+							if (isFallback) lock?.invalidate(lockLocale, key)
+							else {
+								lock?.set(lockLocale, key, sourceValue)
+								// copies of the source need no review
+								if (mode !== 'copy') {
+									lock?.setReviewStatus(lockLocale, key, 'pending')
+								}
+							}
+							if (source) translation.copyMetadataFrom(source, key)
+						}
+						const pluralGroup = pluralGroups.get(translated.key)
+						if (config.qualityCheck && mode !== 'copy' && !isFallback) {
+							qualityEntries.push({
+								key: pluralGroup?.base ?? translated.key,
+								source: sourceValues.get(translated.key) ?? translated.value,
+								translation: translated.value,
+								keys: pluralGroup
+									? Array.from(
+											pluralGroup.variants.values(),
+											(variant) => variant.key
+										)
+									: [translated.key]
+							})
+						}
+						if (pluralGroup) {
+							applyPluralTranslation(
+								translation,
+								pluralGroup,
+								translated.value,
+								language.code
+							)
+							for (const variant of pluralGroup.variants.values()) {
+								record(variant.key, variant.value)
+							}
+							continue
+						}
+						const sourceValue =
+							sourceValues.get(translated.key) ?? translated.value
+						translation
+							.setValue(translated.key, translated.value)
+							.setSourceValue(translated.key, sourceValue)
+						record(translated.key, sourceValue)
+					}
+				}
+				if (diff.removed.length > 0) {
+					logger.log(
+						'INFO',
+						`Removing ${diff.removed.length} deleted keys from ${translationPath}`
+					)
+					for (const removed of diff.removed) {
+						removeTranslationKey(translation, removed.key)
+						lock?.remove(lockLocale, removed.key)
 					}
 				}
 
@@ -106,38 +753,463 @@ const translatePatch = async (
 					'INFO',
 					`Finished translating ${translationPath} for ${language.name}`
 				)
+				if (config.sortKeys && source) translation.sortKeys(source.json)
+				translation.setLocale(language.code)
 				logger.log('INFO', `Writing ${translationPath}`)
 				translation.write()
-			}).run()
+				isWritten = true
+				qualityCandidates.set(translationPath, {
+					language,
+					lockLocale,
+					entries: qualityEntries
+				})
+				memory?.save()
+				lock?.save()
+				validationReport.merge(fileValidationReport)
+			},
+			retryPolicy,
+			`translation of ${translationPath}`
+		)
+		const task = safeTask
+			.run()
+			.then(async (translated) => {
+				if (translated.result === null || !sink) return translated
+				// published separately so a failed upload does not translate again
+				const published = await new SafeAsync(
+					async () => {
+						logger.log(
+							'INFO',
+							`Publishing ${translationPath} to ${sink.name} sink`
+						)
+						await sink.write(
+							createSinkDocument(
+								translation,
+								language.code,
+								diff.removed.map((entry) => entry.key)
+							)
+						)
+					},
+					retryPolicy,
+					`publishing of ${translationPath}`
+				).run()
+				return {
+					...published,
+					errors: [...translated.errors, ...published.errors]
+				}
+			})
+			.then(({ result, errors, fatal }) => {
+				completed++
+				logger.log(
+					'INFO',
+					`Translation progress: ${completed}/${translations.length} locales`
+				)
+				const failed = result === null
+				if (!failed) options.onLocaleWritten?.(language.code)
+				// SafeAsync keeps the error of every failed attempt
+				const localeRetries = errors.length - (failed ? 1 : 0)
+				const error = failed ? errors[errors.length - 1] : undefined
+				// no point in sending the requests of the other locales
+				if (error && isProviderSetupError(error)) scheduler.cancel(error)
+				const namespace = getTranslationNamespace(translation)
+				runReport.add({
+					locale: language.code,
+					language: language.name,
+					...(namespace !== undefined ? { namespace } : {}),
+					path: translationPath,
+					status: failed ? 'failed' : 'done',
+					translated: isWritten ? translatedKeys : 0,
+					failed: diff.translatable.length - (isWritten ? translatedKeys : 0),
+					...stats,
+					retries: stats.retries + localeRetries,
+					elapsedMs: Date.now() - startedAt,
+					changes: {
+						added: isWritten ? diff.added.map((entry) => entry.key) : [],
+						changed: isWritten ? diff.changed.map((entry) => entry.key) : [],
+						removed: isWritten ? diff.removed.map((entry) => entry.key) : []
+					},
+					...(error ? { error: describeError(error) } : {})
+				})
+				return error
+					? {
+							locale: language.code,
+							path: translationPath,
+							error: describeError(error),
+							fatal
+						}
+					: undefined
+			})
+		tasks.push(task)
+	}
+	const results = await Promise.all(tasks)
+	lock?.save()
+	const qualityReport = config.qualityCheck
+		? await checkTranslationQuality(qualityCandidates, {
+				provider,
+				config,
+				scheduler,
+				lock,
+				reportPath: options.qualityReportPath
+			})
+		: undefined
+
+	if (memory) {
+		logger.log(
+			'INFO',
+			`Translation memory: ${memory.hits} hits, ${memory.misses} misses`
+		)
+		memory.save()
+	}
+	if (validationReport.failures.length > 0) {
+		logger.log(
+			'WARN',
+			`${validationReport.failures.length} translations failed validation, ${validationReport.fallbackCount} fell back to the source value`
 		)
 	}
+	if (validationReportPath) {
+		logger.log('INFO', `Writing validation report to ${validationReportPath}`)
+		validationReport.write(validationReportPath)
+	}
+	logger.log('INFO', `Run summary:\n${runReport.format()}`)
+	if (options.reportPath) {
+		logger.log('INFO', `Writing run report to ${options.reportPath}`)
+		runReport.write(options.reportPath, {
+			provider: provider.name,
+			model: provider.model
+		})
+	}
+	return {
+		locales: runReport.locales,
+		failures: results.filter((failure) => failure !== undefined),
+		quality: qualityReport?.scores
+	}
 }
 
-export const patchTranslations = async (
-	baseTranslationFilePath: string,
-	patchedTranslationFilePath: string,
-	outputFolderPath: string,
+const planPatch = (
+	translations: TranslationJson[],
+	patchDiff: PatchDiff,
 	options: {
-		includeLanguages: string
-		excludeKeys: string
-		keepWords: string
-	} = {
-		includeLanguages: '',
-		excludeKeys: '',
-		keepWords: ''
+		provider: TranslationProvider
+		config: GentranslateConfig
+		memory?: TranslationMemory
+		lock?: TranslationLock
+		metadata?: PerLocaleFile<KeyMetadata | undefined>
+		planOutputPath?: string
 	}
-) => {
-	const includeLanguages = options.includeLanguages
-		? options.includeLanguages.replaceAll(/ /g, '').split(',')
-		: []
-	const excludeKeys = options.excludeKeys
-		? options.excludeKeys.replaceAll(/ /g, '').split(',')
-		: []
-	const keepWords = options.keepWords ? options.keepWords.split(',') : []
+): TranslationPlan[] => {
+	const { provider, config, memory, lock } = options
+	const llmTranslationOptions = getLLMTranslationOptions(config)
+	const plans: TranslationPlan[] = []
+	for (const translation of translations) {
+		const language = getLanguageCodeByTranslationJson(translation)
+		const translationPath = getTranslationPath(translation)
+		if (!language) {
+			logger.log(
+				'WARN',
+				`Skipping translation file ${translationPath} because language code could not be determined`
+			)
+			continue
+		}
+		const mode = getLocaleMode(config, language.code)
+		if (mode === 'skip') continue
+		const diff = resolveDiff(
+			patchDiff,
+			translation,
+			getLockLocaleOf(translation, language.code),
+			lock
+		)
+		const existing = translation.flatten()
+		const translatable =
+			mode === 'copy' ? [] : groupPluralEntries(diff.translatable).entries
+		const estimate = new LLMTranslation(
+			getPromptLanguage(language, config),
+			provider,
+			{
+				...llmTranslationOptions,
+				memory,
+				metadata: resolvePerLocaleFile(options.metadata, translation)
+			}
+		).estimate(translatable, {
+			batchSize: config.batchSize
+		})
+		plans.push({
+			locale: language.code,
+			language: language.name,
+			path: translationPath,
+			add: diff.translatable
+				.filter((entry) => !existing.has(entry.key))
+				.map((entry) => entry.key),
+			change: diff.translatable
+				.filter((entry) => existing.has(entry.key))
+				.map((entry) => entry.key),
+			remove: diff.removed
+				.filter((entry) => existing.has(entry.key))
+				.map((entry) => entry.key),
+			...estimate,
+			estimatedCost: estimateCost(
+				provider.model,
+				estimate.promptTokens,
+				estimate.completionTokens
+			)
+		})
+	}
+
+	logger.log(
+		'INFO',
+		`Dry run, nothing will be written. Planned changes:\n${formatPlans(plans)}`
+	)
+	const requests = plans.reduce((sum, plan) => sum + plan.requests, 0)
+	logger.log(
+		'INFO',
+		`${requests} requests would be sent with up to ${config.concurrency} in flight${config.requestsPerMinute ? ` and ${config.requestsPerMinute} per minute` : ''}${config.tokensPerMinute ? `, ${config.tokensPerMinute} tokens per minute` : ''}`
+	)
+	if (config.sink) {
+		logger.log(
+			'INFO',
+			`Locale files would be published to ${config.sink.type} sink ${config.sink.url}`
+		)
+	}
+	if (options.planOutputPath) {
+		logger.log('INFO', `Writing dry-run plan to ${options.planOutputPath}`)
+		writePlans(options.planOutputPath, plans, {
+			provider: provider.name,
+			model: provider.model,
+			concurrency: config.concurrency
+		})
+	}
+	return plans
+}
+
+const resolveOutputFolder = (
+	outputFolderPath: string | undefined,
+	config: GentranslateConfig
+): string => {
+	const resolved = outputFolderPath ?? config.outputFolder
+	if (!resolved) {
+		throw new Error(
+			'No output folder given, pass it as an argument or set "outputFolder" in the config file'
+		)
+	}
+	return resolved
+}
+
+export interface TranslationCommandOptions extends Omit<
+	ConfigCliOptions,
+	'provider'
+> {
+	// provider name, or with the Node API a provider of your own
+	provider?: string | TranslationProvider
+	apiKey?: string
+	validationReport?: string
+	report?: string
+	qualityReport?: string
+	memory?: boolean
+	memoryFile?: string
+	dryRun?: boolean
+	planOutput?: string
+	lockFile?: string
+	resume?: boolean
+	// patch against the source as committed in this ref, e.g. `HEAD~1`
+	since?: string
+	// patch against the commit the branch forked from this ref, e.g. `origin/main`
+	base?: string
+}
+
+export interface TranslationResult {
+	// outcome and written keys of every locale file, empty for a dry run
+	locales: LocaleReport[]
+	failures: LocaleFailure[]
+	// changes a dry run would make
+	plans?: TranslationPlan[]
+	// scores of the quality check when it ran
+	quality?: QualityScore[]
+}
+
+/** A path or URL, a parsed translation file or the messages themselves. */
+export type TranslationInput = string | TranslationJson | TranslationObject
+
+const resolveTranslationConfig = async (options: TranslationCommandOptions) => {
+	const config = await resolveConfig({
+		...options,
+		provider:
+			typeof options.provider === 'object' ? undefined : options.provider
+	})
+	if (config.configPath) {
+		logger.log('INFO', `Using configuration from ${config.configPath}`)
+	}
+	return config
+}
+
+/**
+ * Parses a path or URL input, messages given as an object are read as
+ * JSON from `objectPath`, which names the locale files generated from them.
+ */
+const loadTranslationInput = async (
+	input: TranslationInput,
+	kind: string,
+	objectPath: string,
+	config: GentranslateConfig
+): Promise<TranslationJson> => {
+	if (input instanceof TranslationJson) return input
+	if (typeof input !== 'string') {
+		return TranslationJson.fromObject(input, objectPath)
+	}
+	logger.log('INFO', `Loading ${kind} translation from ${input}`)
+	return new TranslationJson(
+		createTranslationSource(input, config.httpHeaders, config.httpAuth)
+	).parse()
+}
+
+const getObjectInputPath = (
+	outputFolderPath: string,
+	config: GentranslateConfig
+) => `${outputFolderPath}/${config.sourceLocale}.json`
+
+interface PatchNamespace {
+	// undefined unless the path template has a `{namespace}`
+	namespace?: string
+	base: TranslationJson
+	patched: TranslationJson
+}
+
+/**
+ * Base and patched source of every namespace to patch. With a `{namespace}`
+ * path template, two folders laid out like the locale folder patch every
+ * namespace of the source locale, a single file only its own namespace.
+ */
+const loadPatchNamespaces = async (
+	base: TranslationInput,
+	patched: TranslationInput,
+	outputFolderPath: string,
+	config: GentranslateConfig,
+	// the base files are read as committed in it
+	baseCommit?: string
+): Promise<PatchNamespace[]> => {
+	const objectPath = getObjectInputPath(outputFolderPath, config)
+	const load = (kind: 'base' | 'patched', input: TranslationInput) =>
+		loadTranslationInput(input, kind, objectPath, config)
+	const loadBase = async (input: TranslationInput) => {
+		if (baseCommit === undefined || typeof input !== 'string') {
+			return load('base', input)
+		}
+		logger.log(
+			'INFO',
+			`Loading base translation from ${input} at commit ${baseCommit.slice(0, 7)}`
+		)
+		const content = readFileAtCommit(input, baseCommit)
+		// a file added since the commit translates every key
+		return content === undefined
+			? new TranslationJson(new TranslationFile(input))
+			: TranslationJson.fromContent(content, input)
+	}
+	const template = config.pathTemplate
+	const isFolder = (input: TranslationInput): input is string =>
+		typeof input === 'string' &&
+		!isUrl(input) &&
+		fs.statSync(input).isDirectory()
+	if (
+		!template ||
+		!hasNamespace(template) ||
+		typeof base !== 'string' ||
+		!isFolder(patched)
+	) {
+		const patchedTranslation = await load('patched', patched)
+		return [
+			{
+				namespace:
+					template &&
+					getTemplateNamespace(
+						template,
+						outputFolderPath,
+						getTranslationPath(patchedTranslation)
+					),
+				base: await loadBase(base),
+				patched: patchedTranslation
+			}
+		]
+	}
+	const sources = findLocaleFiles(patched, template).filter(
+		(match) =>
+			Language.getLanguageByCode(match.locale)?.code === config.sourceLocale
+	)
+	logger.log('INFO', `Found ${sources.length} namespaces to patch`)
+	const namespaces: PatchNamespace[] = []
+	for (const match of sources) {
+		const baseFilePath = `${base}/${match.path}`
+		namespaces.push({
+			namespace: match.namespace,
+			// a namespace added since the base translates every key
+			base:
+				baseCommit !== undefined || fs.existsSync(baseFilePath)
+					? await loadBase(baseFilePath)
+					: new TranslationJson(new TranslationFile(baseFilePath)),
+			patched: await load('patched', `${patched}/${match.path}`)
+		})
+	}
+	return namespaces
+}
+
+/**
+ * Commit the base is read from with `since` (the ref itself) or `base`
+ * (where the branch forked from the ref), resolved in the repository of the
+ * base path.
+ */
+const resolveBaseCommit = (
+	base: TranslationInput,
+	options: TranslationCommandOptions
+): string | undefined => {
+	const { since, base: baseRef } = options
+	if (since !== undefined && baseRef !== undefined) {
+		throw new ConfigError('--since and --base', [
+			'only one of them can be given'
+		])
+	}
+	const ref = since ?? baseRef
+	if (ref === undefined) return undefined
+	if (typeof base !== 'string' || isUrl(base)) {
+		throw new ConfigError(since !== undefined ? '--since' : '--base', [
+			'the source must be a file or folder of a git repository'
+		])
+	}
+	const commit =
+		since !== undefined ? resolveCommit(base, ref) : getMergeBase(base, ref)
+	logger.log(
+		'INFO',
+		`Comparing against commit ${commit.slice(0, 7)} (${since !== undefined ? ref : `merge base of ${ref} and HEAD`})`
+	)
+	return commit
+}
+
+const getTranslationNamespace = (translation: TranslationJson) =>
+	translation.source instanceof TranslationFile
+		? translation.source.namespace
+		: undefined
+
+// lockfile entry of a locale file, see getLockLocale
+export const getLockLocaleOf = (translation: TranslationJson, code: string) =>
+	getLockLocale(code, getTranslationNamespace(translation))
+
+/**
+ * Translates the keys added or changed between the base and the patched
+ * source into every locale file of the output folder, and removes the keys
+ * deleted from the source. With `since` or `base` the base is the version
+ * of the `base` path committed in that git ref.
+ */
+export const patchTranslations = async (
+	base: TranslationInput,
+	patched: TranslationInput,
+	outputFolder: string | undefined,
+	options: TranslationCommandOptions = {}
+): Promise<TranslationResult> => {
+	const config = await resolveTranslationConfig(options)
+	const outputFolderPath = resolveOutputFolder(outputFolder, config)
+	const includeLanguages = config.targetLocales
+	const provider = createProvider(config, options)
 
 	logger.log('INFO', `Checking output folder for existing translation files`)
-	const existingFiles: TranslationFile[] =
-		getTranslationFilesFromPath(outputFolderPath)
+	const existingFiles: TranslationFile[] = getTranslationFilesFromPath(
+		outputFolderPath,
+		config.pathTemplate
+	)
 
 	logger.log('INFO', `Found ${existingFiles.length} existing translation files`)
 	logger.log('INFO', `Check if existing translation files are valid`)
@@ -148,7 +1220,16 @@ export const patchTranslations = async (
 		'INFO',
 		`Existing translation files are successfully validated. Found ${translations.length} valid files and ${existingFiles.length - translations.length} invalid files. Skipping invalid files`
 	)
-	logger.log('INFO', `Loading base translation from ${baseTranslationFilePath}`)
+
+	translations = translations.filter((translation) => {
+		const language = getLanguageCodeByTranslationJson(translation)
+		if (language?.code !== config.sourceLocale) return true
+		logger.log(
+			'INFO',
+			`Base translation (${getTranslationPath(translation)}) will be skipped`
+		)
+		return false
+	})
 
 	if (includeLanguages.length > 0) {
 		logger.log(
@@ -157,76 +1238,398 @@ export const patchTranslations = async (
 		)
 		translations = translations.filter((translation) => {
 			const language = getLanguageCodeByTranslationJson(translation)
-			const isPatchedTranslationInsideOutput =
-				translation.source instanceof TranslationFile &&
-				translation.source.path.startsWith(outputFolderPath)
-			const isBaseTranslation = language?.code === 'en'
-			if (isBaseTranslation && isPatchedTranslationInsideOutput) {
-				logger.log('INFO', 'Base translation (en.json) will be skipped')
-				return false
-			}
 			return language && includeLanguages.includes(language.code)
 		})
 		logger.log('INFO', `Filtered to only ${translations.length} translations`)
 	}
 
-	const baseTranslation = await new TranslationJson(
-		new TranslationFile(baseTranslationFilePath)
-	).parse()
-
-	logger.log(
-		'INFO',
-		`Loading patched translation from ${patchedTranslationFilePath}`
+	const namespaces = await loadPatchNamespaces(
+		base,
+		patched,
+		outputFolderPath,
+		config,
+		resolveBaseCommit(base, options)
 	)
-	const patchedTranslation = await new TranslationJson(
-		new TranslationFile(patchedTranslationFilePath)
-	).parse()
+	const isNamespaced = namespaces.some((n) => n.namespace !== undefined)
+	if (isNamespaced) {
+		const names = new Set(namespaces.map((n) => n.namespace))
+		translations = translations.filter((translation) =>
+			names.has(getTranslationNamespace(translation))
+		)
+	}
 
-	logger.log('INFO', `Comparing translations`)
-	const diff = patchedTranslation.diff(baseTranslation)
+	const hasExclusions =
+		config.excludeKeys.length > 0 || config.excludePatterns.length > 0
+	const patches = new Map<
+		string | undefined,
+		{ diff: TranslationDiff; metadata: KeyMetadata; source: TranslationJson }
+	>()
+	for (const { namespace, base, patched } of namespaces) {
+		const label = namespace === undefined ? '' : ` in namespace ${namespace}`
+		const metadata = loadKeyMetadata(patched, config)
+		logger.log('INFO', `Comparing translations${label}`)
+		const diff = expandPluralVariants(
+			patched.diff(base).filter((d) => !metadata.isMetadataKey(d.key)),
+			patched.flatten()
+		)
 
-	logger.log('INFO', `Found ${diff.length} differences`)
+		logger.log(
+			'INFO',
+			`Found ${diff.size} differences${label}: ${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed`
+		)
 
-	const filteredDiff =
-		excludeKeys.length > 0
-			? diff.filter((d) => !excludeKeys.includes(d.key))
+		const filteredDiff = hasExclusions
+			? diff.filter((d) => !isKeyExcluded(d.key, config))
 			: diff
 
-	if (excludeKeys.length > 0) {
-		logger.log(
-			'INFO',
-			`Excluded ${diff.length - filteredDiff.length} keys from translation: ${excludeKeys.join(', ')}`
+		if (hasExclusions) {
+			logger.log(
+				'INFO',
+				`Excluded ${diff.size - filteredDiff.size} keys from translation: ${[...config.excludeKeys, ...config.excludePatterns].join(', ')}`
+			)
+		}
+		patches.set(namespace, { diff: filteredDiff, metadata, source: patched })
+	}
+	// every locale file follows the source of its namespace
+	const getPatch = (translation: TranslationJson) =>
+		patches.get(isNamespaced ? getTranslationNamespace(translation) : undefined)
+	const patchDiff = (translation: TranslationJson) =>
+		getPatch(translation)?.diff ?? new TranslationDiff()
+	const metadata = (translation: TranslationJson) =>
+		getPatch(translation)?.metadata
+	if (isNamespaced) {
+		translations = translations.filter(
+			(translation) => patchDiff(translation).size > 0
 		)
 	}
 
-	await translatePatch(translations, filteredDiff, { keepWords })
+	const memory = loadTranslationMemory(outputFolderPath, options)
+	const lock = loadTranslationLock(outputFolderPath, options)
+	if (options.dryRun) {
+		const plans = planPatch(translations, patchDiff, {
+			provider,
+			config,
+			memory,
+			lock,
+			metadata,
+			planOutputPath: options.planOutput
+		})
+		return { locales: [], failures: [], plans }
+	}
+
+	return translatePatch(translations, patchDiff, {
+		provider,
+		config,
+		validationReportPath: options.validationReport,
+		reportPath: options.report,
+		qualityReportPath: options.qualityReport,
+		memory,
+		lock,
+		metadata,
+		source: (translation) => getPatch(translation)?.source,
+		sink: createSink(config)
+	})
 }
 
-export const translateJson = async (
-	pathToTranslationFile: string,
-	outputFilePath: string
-) => {
-	logger.log('INFO', `Loading base translation from ${pathToTranslationFile}`)
-	const translation = await new TranslationJson(
-		new TranslationFile(pathToTranslationFile)
-	).parse()
-	const flattened = translation.flatten()
+/**
+ * Copies the reviewed values of an existing locale file into the locale
+ * `translate-json` is about to generate, they are not translated again.
+ * Returns whether any value was kept.
+ */
+const keepReviewedValues = async (
+	translation: TranslationJson,
+	source: Map<string, string>,
+	lock: TranslationLock
+): Promise<boolean> => {
+	const language = getLanguageCodeByTranslationJson(translation)
+	const translationPath = getTranslationPath(translation)
+	if (!language || !fs.existsSync(translationPath)) return false
+	const lockLocale = getLockLocaleOf(translation, language.code)
+	const reviewed = Array.from(source).filter(([key, value]) =>
+		lock.isReviewed(lockLocale, key, value)
+	)
+	if (reviewed.length === 0) return false
+	const existing = (
+		await new TranslationJson(translation.source).parse()
+	).flatten()
+	for (const [key, value] of reviewed) {
+		const reviewedValue = existing.get(key)
+		// lost from the file, translated again like any other key
+		if (reviewedValue === undefined) {
+			lock.setReviewStatus(lockLocale, key, 'pending')
+			continue
+		}
+		translation.setValue(key, reviewedValue).setSourceValue(key, value)
+	}
+	return true
+}
 
-	const allEntries: TranslationKeyValue[] = Array.from(flattened.entries()).map(
-		([key, value]) => new TranslationKeyValue(key, value)
+/**
+ * Translates every key of the source into each target locale, writing one
+ * locale file per language to the output folder.
+ */
+export const translateJson = async (
+	source: TranslationInput,
+	outputFilePath: string | undefined,
+	options: TranslationCommandOptions = {}
+): Promise<TranslationResult> => {
+	const config = await resolveTranslationConfig(options)
+	const outputFolderPath = resolveOutputFolder(outputFilePath, config)
+	const provider = createProvider(config, options)
+	const translation = await loadTranslationInput(
+		source,
+		'base',
+		getObjectInputPath(outputFolderPath, config),
+		config
+	)
+	const pathToTranslationFile = getTranslationPath(translation)
+	const namespace = config.pathTemplate
+		? getTemplateNamespace(
+				config.pathTemplate,
+				outputFolderPath,
+				pathToTranslationFile
+			)
+		: undefined
+	const metadata = loadKeyMetadata(translation, config)
+	const flattened = new Map(
+		Array.from(translation.flatten()).filter(
+			([key]) => !metadata.isMetadataKey(key)
+		)
 	)
+
+	const allEntries: TranslationKeyValue[] = Array.from(flattened.entries())
+		.map(([key, value]) => new TranslationKeyValue(key, value))
+		.filter((entry) => !isKeyExcluded(entry.key, config))
 	logger.log('INFO', `Found ${allEntries.length} translation entries`)
 
-	const languageCodes = Language.getLanguageCodes()
+	const languageCodes = (
+		config.targetLocales.length > 0
+			? config.targetLocales
+			: Language.getLanguageCodes().filter(
+					(code) => code !== config.sourceLocale
+				)
+	).filter((code) => getLocaleMode(config, code) !== 'skip')
 	logger.log(
 		'INFO',
 		`Generating translations for ${languageCodes.length} languages`
 	)
 
-	const translations: TranslationJson[] = languageCodes.map(
-		(code) =>
-			new TranslationJson(new TranslationFile(`${outputFilePath}/${code}.json`))
+	// a different source, model or locale list starts a new run
+	const checkpoint = new TranslationCheckpoint(
+		`${outputFolderPath}/${TRANSLATION_CHECKPOINT_FILE_NAME}`,
+		hashText(
+			JSON.stringify([Array.from(flattened), provider.model, languageCodes])
+		)
 	)
+	if (options.resume !== false) checkpoint.load()
+	if (checkpoint.size > 0) {
+		logger.log(
+			'INFO',
+			`Resuming previous run, skipping ${checkpoint.size} finished locales`
+		)
+	}
 
-	await translatePatch(translations, allEntries)
+	const translations: TranslationJson[] = languageCodes
+		.filter((code) => !checkpoint.isCompleted(code))
+		.map((code) =>
+			new TranslationJson(
+				new TranslationFile(
+					getLocaleFilePath(
+						outputFolderPath,
+						pathToTranslationFile,
+						code,
+						config.sourceLocale,
+						config.pathTemplate
+					),
+					'',
+					code,
+					namespace
+				)
+			)
+				.useStructureOf(translation)
+				.useLayoutOf(translation)
+		)
+
+	const diff = new TranslationDiff(allEntries)
+	const memory = loadTranslationMemory(outputFolderPath, options)
+	const lock = loadTranslationLock(outputFolderPath, options)
+	let hasReviewedValues = false
+	for (const translation of translations) {
+		if (await keepReviewedValues(translation, flattened, lock)) {
+			hasReviewedValues = true
+		}
+	}
+	if (options.dryRun) {
+		const plans = planPatch(translations, diff, {
+			provider,
+			config,
+			memory,
+			lock,
+			metadata,
+			planOutputPath: options.planOutput
+		})
+		return { locales: [], failures: [], plans }
+	}
+
+	const result = await translatePatch(translations, diff, {
+		provider,
+		// kept values come first, the source order is restored on write
+		config: { ...config, sortKeys: config.sortKeys || hasReviewedValues },
+		validationReportPath: options.validationReport,
+		reportPath: options.report,
+		qualityReportPath: options.qualityReport,
+		memory,
+		lock,
+		metadata,
+		source: translation,
+		sink: createSink(config),
+		onLocaleWritten: (code) => checkpoint.complete(code)
+	})
+	if (result.failures.length === 0) {
+		checkpoint.clear()
+	} else if (checkpoint.size > 0) {
+		logger.log(
+			'WARN',
+			`Finished locales are saved in ${checkpoint.path}, run the command again to resume`
+		)
+	}
+	return result
+}
+
+/**
+ * Keys of a locale file that need a translation: missing from the lockfile
+ * and the file, or translated from a source text that has changed since.
+ * Existing keys the lockfile does not know yet are adopted as up to date.
+ */
+const getStaleDiff = (
+	source: Map<string, string>,
+	translation: TranslationJson,
+	lockLocale: string,
+	lock: TranslationLock
+): TranslationDiff => {
+	const existing = translation.flatten()
+	// plural forms the language does not use are never in the locale file
+	const isPresent = (key: string) => {
+		const pluralKey = parsePluralKey(key)
+		return (
+			existing.has(key) ||
+			(pluralKey !== undefined &&
+				existing.has(getPluralKey(pluralKey.base, pluralKey.type, 'other')))
+		)
+	}
+	const diff = new TranslationDiff()
+	for (const [key, value] of source) {
+		if (lock.isCurrent(lockLocale, key, value)) continue
+		if (!lock.has(lockLocale, key) && isPresent(key)) {
+			lock.set(lockLocale, key, value)
+			continue
+		}
+		const entry = new TranslationKeyValue(key, value)
+		if (isPresent(key)) diff.changed.push(entry)
+		else diff.added.push(entry)
+	}
+	for (const key of lock.getKeys(lockLocale)) {
+		if (!source.has(key)) diff.removed.push(new TranslationKeyValue(key, ''))
+	}
+	return expandPluralVariants(diff, source)
+}
+
+/**
+ * Translates the keys of every locale file whose source text changed since
+ * they were last translated, according to the lockfile.
+ */
+export const syncTranslations = async (
+	source: TranslationInput,
+	outputFolder: string | undefined,
+	options: TranslationCommandOptions = {}
+): Promise<TranslationResult> => {
+	const config = await resolveTranslationConfig(options)
+	const outputFolderPath = resolveOutputFolder(outputFolder, config)
+	const provider = createProvider(config, options)
+
+	const sourceTranslation = await loadTranslationInput(
+		source,
+		'source',
+		getObjectInputPath(outputFolderPath, config),
+		config
+	)
+	const sourceFilePath = getTranslationPath(sourceTranslation)
+	const metadata = loadKeyMetadata(sourceTranslation, config)
+	const sourceValues = new Map(
+		Array.from(sourceTranslation.flatten()).filter(
+			([key]) => !isKeyExcluded(key, config) && !metadata.isMetadataKey(key)
+		)
+	)
+
+	const existingFiles = getLocaleFiles(
+		outputFolderPath,
+		sourceFilePath,
+		config
+	).filter((file) => path.resolve(file.path) !== path.resolve(sourceFilePath))
+	const translations = (
+		await getTranslationJsonFromFiles(existingFiles)
+	).filter((translation) => {
+		const language = getLanguageCodeByTranslationJson(translation)
+		if (!language || language.code === config.sourceLocale) return false
+		return (
+			config.targetLocales.length === 0 ||
+			config.targetLocales.includes(language.code)
+		)
+	})
+	logger.log('INFO', `Found ${translations.length} locale files to sync`)
+
+	const lock = loadTranslationLock(outputFolderPath, options)
+	const diffs = new Map<TranslationJson, TranslationDiff>()
+	for (const translation of translations) {
+		const language = getLanguageCodeByTranslationJson(translation)
+		if (!language) continue
+		const diff = getStaleDiff(
+			sourceValues,
+			translation,
+			getLockLocaleOf(translation, language.code),
+			lock
+		)
+		logger.log(
+			'INFO',
+			`${getTranslationPath(translation)}: ${diff.added.length} missing, ${diff.changed.length} stale, ${diff.removed.length} removed`
+		)
+		diffs.set(translation, diff)
+	}
+	const staleTranslations = translations.filter(
+		(translation) => (diffs.get(translation)?.size ?? 0) > 0
+	)
+	const getDiff = (translation: TranslationJson) =>
+		diffs.get(translation) ?? new TranslationDiff()
+
+	const memory = loadTranslationMemory(outputFolderPath, options)
+	if (options.dryRun) {
+		const plans = planPatch(staleTranslations, getDiff, {
+			provider,
+			config,
+			memory,
+			lock,
+			metadata,
+			planOutputPath: options.planOutput
+		})
+		return { locales: [], failures: [], plans }
+	}
+
+	// adopted keys are recorded even when every locale is up to date
+	lock.save()
+	if (staleTranslations.length === 0) {
+		logger.log('INFO', `All locale files are up to date`)
+		return { locales: [], failures: [] }
+	}
+	return translatePatch(staleTranslations, getDiff, {
+		provider,
+		config,
+		validationReportPath: options.validationReport,
+		reportPath: options.report,
+		qualityReportPath: options.qualityReport,
+		memory,
+		lock,
+		metadata,
+		source: sourceTranslation,
+		sink: createSink(config)
+	})
 }
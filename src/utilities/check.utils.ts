@@ -0,0 +1,193 @@
+import * as fs from 'node:fs'
+import { CHECK_ISSUE_TYPES } from '@/constants/check.constants'
+import {
+	getPluralCategories,
+	getPluralKey,
+	groupPluralVariants
+} from '@/utilities/plural.utils'
+import { validateTranslation } from '@/utilities/validation.utils'
+
+export type CheckIssueType = (typeof CHECK_ISSUE_TYPES)[number]
+
+export type CheckThresholds = Partial<Record<CheckIssueType, number>>
+
+export interface CheckIssue {
+	type: CheckIssueType
+	key?: string
+	message: string
+}
+
+export interface LocaleCheckResult {
+	path: string
+	locale?: string
+	issues: CheckIssue[]
+}
+
+export interface CheckReport {
+	source: string
+	counts: Record<CheckIssueType, number>
+	// issues allowed per type, unlisted types are unlimited
+	thresholds: CheckThresholds
+	// issue types whose count is above the allowed threshold
+	exceeded: CheckIssueType[]
+	locales: LocaleCheckResult[]
+}
+
+// placeholder-only or numeric values are the same in every language
+const hasTranslatableText = (value: string, keepWords: string[]) => {
+	const withoutPlaceholders = keepWords
+		.reduce((text, word) => text.split(word).join(''), value)
+		.replace(
+			/\{\{[^{}]*\}\}|\{[^{}]*\}|%(\d+\$)?[-+ 0#]*\d*(\.\d+)?[a-zA-Z@]/g,
+			''
+		)
+	return /\p{L}{2,}/u.test(withoutPlaceholders)
+}
+
+/**
+ * Keys a locale must contain: the source keys, with i18next plural variants
+ * replaced by the plural categories of the locale's language.
+ */
+const getExpectedKeys = (
+	source: Map<string, string>,
+	code: string
+): Map<string, string> => {
+	const entries = Array.from(source, ([key, value]) => ({ key, value }))
+	const { groups, singles } = groupPluralVariants(entries)
+	const expected = new Map(singles.map((entry) => [entry.key, entry.value]))
+	for (const group of groups) {
+		for (const category of getPluralCategories(code, group.type)) {
+			const variant =
+				group.variants.get(category) ?? group.variants.get('other')
+			expected.set(
+				getPluralKey(group.base, group.type, category),
+				variant?.value ?? ''
+			)
+		}
+	}
+	return expected
+}
+
+/**
+ * Compares a locale's flattened keys with the source without calling any
+ * provider: missing and extra keys, values identical to the source, empty
+ * values and placeholder/ICU/tag mismatches.
+ */
+export const checkLocale = (
+	source: Map<string, string>,
+	target: Map<string, string>,
+	options: {
+		code: string
+		sourceLocale: string
+		// locales configured to copy the source text
+		copiesSource?: boolean
+		keepWords?: string[]
+		isKeyExcluded?: (key: string) => boolean
+	}
+): CheckIssue[] => {
+	const isExcluded = options.isKeyExcluded ?? (() => false)
+	const expected = getExpectedKeys(source, options.code)
+	// regional variants of the source language may legitimately match it
+	const isSourceLanguage =
+		options.copiesSource ||
+		options.code.split('-')[0] === options.sourceLocale.split('-')[0]
+	const issues: CheckIssue[] = []
+
+	for (const [key, sourceValue] of expected) {
+		if (isExcluded(key)) continue
+		const value = target.get(key)
+		if (value === undefined) {
+			issues.push({ type: 'missing', key, message: `Missing key "${key}"` })
+			continue
+		}
+		if (sourceValue.trim().length > 0 && value.trim().length === 0) {
+			issues.push({ type: 'empty', key, message: `Empty value for "${key}"` })
+			continue
+		}
+		if (
+			!isSourceLanguage &&
+			value === sourceValue &&
+			hasTranslatableText(value, options.keepWords ?? [])
+		) {
+			issues.push({
+				type: 'untranslated',
+				key,
+				message: `Value of "${key}" is identical to the source`
+			})
+		}
+		const mismatches = validateTranslation(
+			sourceValue,
+			value,
+			options.code
+		).filter((issue) => ['placeholder', 'icu', 'tag'].includes(issue.type))
+		if (mismatches.length > 0) {
+			issues.push({
+				type: 'placeholder',
+				key,
+				message: `"${key}": ${mismatches.map((issue) => issue.message).join('; ')}`
+			})
+		}
+	}
+	for (const key of target.keys()) {
+		if (expected.has(key) || isExcluded(key)) continue
+		issues.push({
+			type: 'extra',
+			key,
+			message: `Key "${key}" does not exist in the source`
+		})
+	}
+	return issues
+}
+
+export const createCheckReport = (
+	source: string,
+	locales: LocaleCheckResult[],
+	thresholds: CheckThresholds
+): CheckReport => {
+	const counts = Object.fromEntries(
+		CHECK_ISSUE_TYPES.map((type) => [
+			type,
+			locales.reduce(
+				(sum, locale) =>
+					sum + locale.issues.filter((issue) => issue.type === type).length,
+				0
+			)
+		])
+	) as Record<CheckIssueType, number>
+	const exceeded = CHECK_ISSUE_TYPES.filter((type) => {
+		const threshold = thresholds[type]
+		return threshold !== undefined && counts[type] > threshold
+	})
+	return { source, counts, thresholds, exceeded, locales }
+}
+
+export const formatCheckReport = (report: CheckReport): string => {
+	const lines: string[] = []
+	for (const locale of report.locales) {
+		lines.push(
+			`${locale.path}${locale.locale ? ` (${locale.locale})` : ''}: ${locale.issues.length === 0 ? 'ok' : `${locale.issues.length} issue${locale.issues.length === 1 ? '' : 's'}`}`
+		)
+		for (const issue of locale.issues) {
+			lines.push(`  ${issue.type.padEnd(14)} ${issue.message}`)
+		}
+	}
+	lines.push(
+		'',
+		'Summary:',
+		...CHECK_ISSUE_TYPES.map((type) => {
+			const threshold = report.thresholds[type]
+			const status = report.exceeded.includes(type) ? '  FAIL' : ''
+			return `  ${type.padEnd(14)} ${String(report.counts[type]).padStart(5)} (max ${threshold ?? 'unlimited'})${status}`
+		})
+	)
+	lines.push(
+		report.exceeded.length > 0
+			? `Check failed: ${report.exceeded.join(', ')} above threshold`
+			: 'Check passed'
+	)
+	return lines.join('\n')
+}
+
+export const writeCheckReport = (path: string, report: CheckReport): void => {
+	fs.writeFileSync(path, JSON.stringify(report, null, 2))
+}
@@ -0,0 +1,60 @@
+import * as fs from 'node:fs'
+import { writeFileAtomic } from '@/utilities/common.utils'
+
+export const TRANSLATION_CHECKPOINT_FILE_NAME = '.gentranslate-checkpoint.json'
+
+interface TranslationCheckpointFile {
+	// identifies the run, a different source or model starts over
+	runHash: string
+	completed: string[]
+	updatedAt: string
+}
+
+/**
+ * Locales a `translate-json` run has finished, saved after every locale so
+ * an interrupted run can resume without translating them again.
+ */
+export class TranslationCheckpoint {
+	private completed: Set<string> = new Set()
+
+	constructor(
+		public readonly path: string,
+		private readonly runHash: string
+	) {}
+
+	public load(): TranslationCheckpoint {
+		if (!fs.existsSync(this.path)) return this
+		const content = JSON.parse(
+			fs.readFileSync(this.path, 'utf-8')
+		) as TranslationCheckpointFile
+		if (content.runHash === this.runHash) {
+			this.completed = new Set(content.completed)
+		}
+		return this
+	}
+
+	public get size(): number {
+		return this.completed.size
+	}
+
+	public isCompleted(locale: string): boolean {
+		return this.completed.has(locale)
+	}
+
+	public complete(locale: string): TranslationCheckpoint {
+		this.completed.add(locale)
+		const content: TranslationCheckpointFile = {
+			runHash: this.runHash,
+			completed: Array.from(this.completed),
+			updatedAt: new Date().toISOString()
+		}
+		writeFileAtomic(this.path, JSON.stringify(content, null, 2))
+		return this
+	}
+
+	// the run finished, nothing left to resume
+	public clear(): void {
+		fs.rmSync(this.path, { force: true })
+		this.completed.clear()
+	}
+}
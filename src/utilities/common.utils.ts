@@ -1,36 +1,99 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
 import { Logger } from '@/utilities/logger.utils'
+import { describeError, isRetryableError } from '@/utilities/error.utils'
+import {
+	DEFAULT_RETRIES,
+	DEFAULT_RETRY_DELAY_MS
+} from '@/constants/config.constants'
+
+/**
+ * Writes through a temporary file in the same directory and renames it over
+ * the target, so a crash mid-write never leaves a truncated file behind.
+ */
+export const writeFileAtomic = (filePath: string, content: string): void => {
+	const tempPath = path.join(
+		path.dirname(filePath),
+		`.${path.basename(filePath)}.${process.pid}.tmp`
+	)
+	try {
+		// new locales may need their own folder, e.g. `_locales/<code>/`
+		fs.mkdirSync(path.dirname(filePath), { recursive: true })
+		fs.writeFileSync(tempPath, content)
+		fs.renameSync(tempPath, filePath)
+	} catch (error) {
+		fs.rmSync(tempPath, { force: true })
+		throw error
+	}
+}
+
+export interface RetryPolicy {
+	// attempts after the first one, fatal errors are never retried
+	retries: number
+	baseDelayMs: number
+	maxDelayMs: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	retries: DEFAULT_RETRIES,
+	baseDelayMs: DEFAULT_RETRY_DELAY_MS,
+	maxDelayMs: 30_000
+}
+
+// exponential backoff with "equal jitter": half fixed, half random
+export const getBackoffDelay = (attempt: number, policy: RetryPolicy) => {
+	const delay = Math.min(
+		policy.maxDelayMs,
+		policy.baseDelayMs * Math.pow(2, attempt)
+	)
+	return delay / 2 + Math.random() * (delay / 2)
+}
 
 export class SafeAsync<T> {
 	public errors: Error[] = []
 	private logger: Logger = new Logger()
+	private readonly policy: RetryPolicy
 
 	constructor(
 		private readonly fn: () => Promise<T>,
-		private readonly retries = 3
-	) {}
+		policy: Partial<RetryPolicy> = {},
+		private readonly label: string = fn.name || 'task'
+	) {
+		this.policy = { ...DEFAULT_RETRY_POLICY, ...policy }
+	}
 
-	async run(): Promise<{ result: T | null; errors: Error[] }> {
-		for (let i = 0; i < this.retries; i++) {
+	/**
+	 * Runs the function, retrying retryable errors with backoff. Never throws,
+	 * `fatal` tells whether the last error would have failed again anyway.
+	 */
+	async run(): Promise<{ result: T | null; errors: Error[]; fatal: boolean }> {
+		for (let i = 0; i <= this.policy.retries; i++) {
 			try {
-				return { result: await this.fn(), errors: [] }
+				return { result: await this.fn(), errors: [], fatal: false }
 			} catch (error) {
 				this.errors.push(error as Error)
-				if (i === this.retries - 1) {
+				if (!isRetryableError(error)) {
 					this.logger.log(
 						'ERROR',
-						`Max retries reached for ${this.fn.name}: ${error}`
+						`${this.label} failed with a non-retryable error: ${describeError(error)}`
+					)
+					return { result: null, errors: this.errors, fatal: true }
+				}
+				if (i === this.policy.retries) {
+					this.logger.log(
+						'ERROR',
+						`Max retries reached for ${this.label}: ${describeError(error)}`
 					)
 					break
 				}
+				const delay = getBackoffDelay(i, this.policy)
 				this.logger.log(
 					'WARN',
-					`Retry ${i + 1} for ${this.fn.name} failed: ${error}`
-				)
-				await new Promise((resolve) =>
-					setTimeout(resolve, Math.pow(2, i) * 1000)
+					`Attempt ${i + 1} for ${this.label} failed, retrying in ${Math.round(delay)}ms: ${describeError(error)}`
 				)
+				await new Promise((resolve) => setTimeout(resolve, delay))
 			}
 		}
-		return Promise.resolve({ result: null, errors: this.errors })
+		return { result: null, errors: this.errors, fatal: false }
 	}
 }
@@ -0,0 +1,499 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import {
+	CONFIG_FILE_NAMES,
+	DEFAULT_BATCH_SIZE,
+	DEFAULT_CONCURRENCY,
+	DEFAULT_RETRIES,
+	DEFAULT_RETRY_DELAY_MS,
+	DEFAULT_SOURCE_LOCALE,
+	LOCALE_MODES
+} from '@/constants/config.constants'
+import { PROVIDER_NAMES } from '@/constants/provider.constants'
+import { CHECK_ISSUE_TYPES } from '@/constants/check.constants'
+import {
+	HTTP_AUTH_MODES,
+	SINK_METHODS,
+	SINK_TYPES
+} from '@/constants/sink.constants'
+import { DEFAULT_QUALITY_THRESHOLD } from '@/constants/quality.constants'
+import type { CheckThresholds } from '@/utilities/check.utils'
+import type { SinkConfig } from '@/utilities/sink.utils'
+import { HttpAuth, parseHeaders } from '@/utilities/http.utils'
+import { normalizeLocaleCode } from '@/utilities/locale.utils'
+
+export type LocaleMode = (typeof LOCALE_MODES)[number]
+
+export interface LocaleOverride {
+	// language name used in the prompt, e.g. "Brazilian Portuguese"
+	name?: string
+	// writing system asked for, e.g. "Latin" or "Cyrillic" for Serbian
+	script?: string
+	// `copy` writes the source text as is, `skip` leaves the locale alone
+	mode?: LocaleMode
+}
+
+export interface GentranslateConfig {
+	sourceLocale: string
+	// empty means every known language
+	targetLocales: string[]
+	outputFolder?: string
+	excludeKeys: string[]
+	// `*` matches within a key segment, `**` across segments
+	excludePatterns: string[]
+	keepWords: string[]
+	glossary?: Record<string, string>
+	// path to a JSON term base with approved translations per language
+	termBase?: string
+	// JSON file with a description and max length per key
+	metadataFile?: string
+	// read `key_description` siblings of the source as the description of
+	// `key` instead of translating them, off as real keys may end that way
+	descriptionKeys: boolean
+	domainContext?: string
+	provider?: string
+	model?: string
+	baseUrl?: string
+	batchSize: number
+	// provider requests in flight at the same time, across all locales
+	concurrency: number
+	requestsPerMinute?: number
+	tokensPerMinute?: number
+	// attempts of a failed locale after the first one, fatal errors stop early
+	retries: number
+	// base delay in ms of the exponential backoff between attempts
+	retryDelay: number
+	// reorder JSON/YAML locale files to follow the key order of the source
+	sortKeys: boolean
+	// issues allowed per type by the check command
+	checkThresholds?: CheckThresholds
+	// sent with URL sources and sinks, `${NAME}` reads the environment
+	httpHeaders?: Record<string, string>
+	// `env` sends $GENTRANSLATE_HTTP_TOKEN to URL sources and sinks
+	httpAuth?: HttpAuth
+	// where locale files are published after being written
+	sink?: SinkConfig
+	// locale file paths relative to the output folder, e.g.
+	// `{locale}/common.json` or `locales/{locale}/{namespace}.json`
+	pathTemplate?: string
+	// per-locale prompt name, script and mode, by locale code
+	locales?: Record<string, LocaleOverride>
+	// back-translate every translation and flag the suspicious ones for review
+	qualityCheck: boolean
+	// back-translation similarity (0 to 1) below which a translation is flagged
+	qualityThreshold: number
+}
+
+// options shared by the CLI commands that map onto the config
+export interface ConfigCliOptions {
+	// config file, or with the Node API the config itself
+	config?: string | Partial<GentranslateConfig>
+	sourceLocale?: string
+	includeLanguages?: string
+	excludeKeys?: string
+	keepWords?: string
+	provider?: string
+	model?: string
+	baseUrl?: string
+	batchSize?: string
+	concurrency?: string
+	requestsPerMinute?: string
+	tokensPerMinute?: string
+	retries?: string
+	retryDelay?: string
+	termBase?: string
+	metadata?: string
+	sortKeys?: boolean
+	header?: string[]
+	httpAuth?: string
+	sink?: string
+	sinkType?: string
+	sinkMethod?: string
+	pathTemplate?: string
+	qualityCheck?: boolean
+	qualityThreshold?: string
+}
+
+export class ConfigError extends Error {
+	constructor(
+		public readonly origin: string,
+		public readonly errors: string[]
+	) {
+		super(
+			`Invalid configuration in ${origin}:\n${errors.map((e) => `  - ${e}`).join('\n')}`
+		)
+		this.name = 'ConfigError'
+	}
+}
+
+type FieldValidator = (value: unknown) => string | undefined
+
+const isStringArray: FieldValidator = (value) =>
+	Array.isArray(value) && value.every((v) => typeof v === 'string')
+		? undefined
+		: 'must be an array of strings'
+
+const isString: FieldValidator = (value) =>
+	typeof value === 'string' ? undefined : 'must be a string'
+
+const isNonEmptyString: FieldValidator = (value) =>
+	typeof value === 'string' && value.trim().length > 0
+		? undefined
+		: 'must be a non-empty string'
+
+const isPositiveInteger: FieldValidator = (value) =>
+	Number.isInteger(value) && (value as number) > 0
+		? undefined
+		: 'must be a positive integer'
+
+const isNonNegativeInteger: FieldValidator = (value) =>
+	Number.isInteger(value) && (value as number) >= 0
+		? undefined
+		: 'must be a non-negative integer'
+
+const isRatio: FieldValidator = (value) =>
+	typeof value === 'number' && value >= 0 && value <= 1
+		? undefined
+		: 'must be a number between 0 and 1'
+
+const isBoolean: FieldValidator = (value) =>
+	typeof value === 'boolean' ? undefined : 'must be true or false'
+
+const isStringRecord: FieldValidator = (value) =>
+	typeof value === 'object' &&
+	value !== null &&
+	!Array.isArray(value) &&
+	Object.values(value).every((v) => typeof v === 'string')
+		? undefined
+		: 'must be an object mapping terms to strings'
+
+const isProviderName: FieldValidator = (value) =>
+	typeof value === 'string' &&
+	(PROVIDER_NAMES as readonly string[]).includes(value)
+		? undefined
+		: `must be one of: ${PROVIDER_NAMES.join(', ')}`
+
+const isCheckThresholds: FieldValidator = (value) =>
+	typeof value === 'object' &&
+	value !== null &&
+	!Array.isArray(value) &&
+	Object.entries(value).every(
+		([type, limit]) =>
+			(CHECK_ISSUE_TYPES as readonly string[]).includes(type) &&
+			Number.isInteger(limit) &&
+			limit >= 0
+	)
+		? undefined
+		: `must map issue types (${CHECK_ISSUE_TYPES.join(', ')}) to non-negative integers`
+
+const isHeaders: FieldValidator = (value) =>
+	isStringRecord(value) === undefined
+		? undefined
+		: 'must be an object mapping header names to strings'
+
+const isHttpAuth: FieldValidator = (value) =>
+	(HTTP_AUTH_MODES as readonly unknown[]).includes(value)
+		? undefined
+		: `must be one of: ${HTTP_AUTH_MODES.join(', ')}`
+
+const isSinkConfig: FieldValidator = (value) => {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return 'must be an object with a type and a url'
+	}
+	const sink = value as Record<string, unknown>
+	if (!(SINK_TYPES as readonly unknown[]).includes(sink.type)) {
+		return `type must be one of: ${SINK_TYPES.join(', ')}`
+	}
+	if (isNonEmptyString(sink.url)) return 'url must be a non-empty string'
+	if (
+		sink.method !== undefined &&
+		!(SINK_METHODS as readonly unknown[]).includes(sink.method)
+	) {
+		return `method must be one of: ${SINK_METHODS.join(', ')}`
+	}
+	if (sink.headers !== undefined && isStringRecord(sink.headers)) {
+		return 'headers must map header names to strings'
+	}
+	if (sink.auth !== undefined && isHttpAuth(sink.auth)) {
+		return `auth ${isHttpAuth(sink.auth)}`
+	}
+	return undefined
+}
+
+const isPathTemplate: FieldValidator = (value) => {
+	if (typeof value !== 'string' || !value.includes('{locale}')) {
+		return 'must be a path containing {locale}, e.g. {locale}/common.json'
+	}
+	if (path.isAbsolute(value) || value.split('/').includes('..')) {
+		return 'must be relative to the output folder'
+	}
+	return undefined
+}
+
+const isLocaleOverrides: FieldValidator = (value) => {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return 'must be an object mapping locale codes to { name, script, mode }'
+	}
+	for (const [code, override] of Object.entries(value)) {
+		if (
+			typeof override !== 'object' ||
+			override === null ||
+			Array.isArray(override)
+		) {
+			return `"${code}" must be an object with a name, script or mode`
+		}
+		const { name, script, mode } = override as Record<string, unknown>
+		if (name !== undefined && isNonEmptyString(name)) {
+			return `"${code}.name" must be a non-empty string`
+		}
+		if (script !== undefined && isNonEmptyString(script)) {
+			return `"${code}.script" must be a non-empty string`
+		}
+		if (
+			mode !== undefined &&
+			!(LOCALE_MODES as readonly unknown[]).includes(mode)
+		) {
+			return `"${code}.mode" must be one of: ${LOCALE_MODES.join(', ')}`
+		}
+	}
+	return undefined
+}
+
+const CONFIG_FIELDS: Record<keyof GentranslateConfig, FieldValidator> = {
+	sourceLocale: isNonEmptyString,
+	targetLocales: isStringArray,
+	outputFolder: isNonEmptyString,
+	excludeKeys: isStringArray,
+	excludePatterns: isStringArray,
+	keepWords: isStringArray,
+	glossary: isStringRecord,
+	termBase: isNonEmptyString,
+	metadataFile: isNonEmptyString,
+	descriptionKeys: isBoolean,
+	domainContext: isString,
+	provider: isProviderName,
+	model: isNonEmptyString,
+	baseUrl: isNonEmptyString,
+	batchSize: isPositiveInteger,
+	concurrency: isPositiveInteger,
+	requestsPerMinute: isPositiveInteger,
+	tokensPerMinute: isPositiveInteger,
+	retries: isNonNegativeInteger,
+	retryDelay: isNonNegativeInteger,
+	sortKeys: isBoolean,
+	checkThresholds: isCheckThresholds,
+	httpHeaders: isHeaders,
+	httpAuth: isHttpAuth,
+	sink: isSinkConfig,
+	pathTemplate: isPathTemplate,
+	locales: isLocaleOverrides,
+	qualityCheck: isBoolean,
+	qualityThreshold: isRatio
+}
+
+// resolved relative to the config file they are declared in
+const CONFIG_PATH_FIELDS = ['outputFolder', 'termBase', 'metadataFile'] as const
+
+const DEFAULT_CONFIG: GentranslateConfig = {
+	sourceLocale: DEFAULT_SOURCE_LOCALE,
+	targetLocales: [],
+	excludeKeys: [],
+	excludePatterns: [],
+	keepWords: [],
+	descriptionKeys: false,
+	batchSize: DEFAULT_BATCH_SIZE,
+	concurrency: DEFAULT_CONCURRENCY,
+	retries: DEFAULT_RETRIES,
+	retryDelay: DEFAULT_RETRY_DELAY_MS,
+	sortKeys: false,
+	qualityCheck: false,
+	qualityThreshold: DEFAULT_QUALITY_THRESHOLD
+}
+
+export const validateConfig = (
+	raw: unknown,
+	origin: string
+): Partial<GentranslateConfig> => {
+	if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+		throw new ConfigError(origin, ['configuration must be an object'])
+	}
+	const errors: string[] = []
+	for (const [field, value] of Object.entries(raw)) {
+		if (!(field in CONFIG_FIELDS)) {
+			errors.push(
+				`unknown option "${field}", expected one of: ${Object.keys(CONFIG_FIELDS).join(', ')}`
+			)
+			continue
+		}
+		if (value === undefined) continue
+		const error = CONFIG_FIELDS[field as keyof GentranslateConfig](value)
+		if (error) errors.push(`"${field}" ${error}`)
+	}
+	if (errors.length > 0) throw new ConfigError(origin, errors)
+	return raw as Partial<GentranslateConfig>
+}
+
+export const findConfigFile = (
+	directory: string = process.cwd()
+): string | undefined => {
+	let current = path.resolve(directory)
+	while (true) {
+		for (const fileName of CONFIG_FILE_NAMES) {
+			const candidate = path.join(current, fileName)
+			if (fs.existsSync(candidate)) return candidate
+		}
+		const parent = path.dirname(current)
+		if (parent === current) return undefined
+		current = parent
+	}
+}
+
+const loadConfigFile = async (configPath: string): Promise<unknown> => {
+	const absolutePath = path.resolve(configPath)
+	if (!fs.existsSync(absolutePath)) {
+		throw new ConfigError(configPath, ['file does not exist'])
+	}
+	if (absolutePath.endsWith('.json')) {
+		try {
+			return JSON.parse(fs.readFileSync(absolutePath, 'utf-8'))
+		} catch (error) {
+			throw new ConfigError(configPath, [`invalid JSON: ${error}`])
+		}
+	}
+	if (absolutePath.endsWith('.ts')) {
+		// resolved at runtime so tsx stays an optional dependency
+		const loaderModule = 'tsx/cjs/api'
+		let tsxRequire: (id: string, fromFile: string) => unknown
+		try {
+			tsxRequire = (await import(loaderModule)).require
+		} catch {
+			throw new ConfigError(configPath, [
+				'loading a TypeScript config requires the "tsx" package, install it or use gentranslate.config.json'
+			])
+		}
+		const loaded = tsxRequire(absolutePath, __filename) as { default?: unknown }
+		return loaded.default ?? loaded
+	}
+	const loaded = await import(absolutePath)
+	return loaded.default ?? loaded
+}
+
+const splitList = (value?: string): string[] | undefined =>
+	value
+		? value
+				.split(',')
+				.map((v) => v.trim())
+				.filter(Boolean)
+		: undefined
+
+const parseNumber = (value?: string): number | undefined =>
+	value === undefined ? undefined : Number(value)
+
+/**
+ * Loads the explicit or discovered config file, applies CLI flags on top of
+ * it and validates the result. A config object replaces the config file.
+ */
+export const resolveConfig = async (
+	options: ConfigCliOptions = {},
+	overrides: Partial<GentranslateConfig> = {}
+): Promise<GentranslateConfig & { configPath?: string }> => {
+	const configPath =
+		typeof options.config === 'object'
+			? undefined
+			: (options.config ?? findConfigFile())
+	const fileConfig =
+		typeof options.config === 'object'
+			? validateConfig({ ...options.config }, 'config object')
+			: configPath
+				? validateConfig(await loadConfigFile(configPath), configPath)
+				: {}
+	if (configPath) {
+		for (const field of CONFIG_PATH_FIELDS) {
+			const value = fileConfig[field]
+			if (value) {
+				fileConfig[field] = path.resolve(path.dirname(configPath), value)
+			}
+		}
+	}
+
+	const cliConfig: Partial<GentranslateConfig> = {
+		sourceLocale: options.sourceLocale,
+		targetLocales: splitList(options.includeLanguages),
+		excludeKeys: splitList(options.excludeKeys),
+		// keep words may legitimately contain spaces
+		keepWords: options.keepWords ? options.keepWords.split(',') : undefined,
+		provider: options.provider,
+		model: options.model,
+		baseUrl: options.baseUrl,
+		batchSize: parseNumber(options.batchSize),
+		concurrency: parseNumber(options.concurrency),
+		requestsPerMinute: parseNumber(options.requestsPerMinute),
+		tokensPerMinute: parseNumber(options.tokensPerMinute),
+		retries: parseNumber(options.retries),
+		retryDelay: parseNumber(options.retryDelay),
+		termBase: options.termBase,
+		metadataFile: options.metadata,
+		sortKeys: options.sortKeys,
+		// header flags add to the headers of the config file
+		httpHeaders: options.header?.length
+			? { ...fileConfig.httpHeaders, ...parseHeaders(options.header) }
+			: undefined,
+		httpAuth: options.httpAuth as HttpAuth | undefined,
+		sink: options.sink
+			? ({
+					type: options.sinkType ?? 'http',
+					url: options.sink,
+					method: options.sinkMethod?.toUpperCase()
+				} as SinkConfig)
+			: undefined,
+		pathTemplate: options.pathTemplate,
+		qualityCheck: options.qualityCheck,
+		qualityThreshold: parseNumber(options.qualityThreshold),
+		...overrides
+	}
+	const definedCliConfig = Object.fromEntries(
+		Object.entries(cliConfig).filter(([, value]) => value !== undefined)
+	)
+	validateConfig(definedCliConfig, 'command line options')
+
+	const config: GentranslateConfig = {
+		...DEFAULT_CONFIG,
+		...fileConfig,
+		...definedCliConfig
+	}
+	// `pt_br` and `pt-BR` name the same locale
+	return {
+		...config,
+		sourceLocale: normalizeLocaleCode(config.sourceLocale),
+		targetLocales: config.targetLocales.map(normalizeLocaleCode),
+		locales:
+			config.locales &&
+			Object.fromEntries(
+				Object.entries(config.locales).map(([code, override]) => [
+					normalizeLocaleCode(code),
+					override
+				])
+			),
+		configPath
+	}
+}
+
+const escapeRegExp = (text: string) =>
+	text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+
+const toKeyPatternRegExp = (pattern: string): RegExp =>
+	new RegExp(
+		`^${pattern
+			.split('**')
+			.map((part) => part.split('*').map(escapeRegExp).join('[^.]*'))
+			.join('.*')}$`
+	)
+
+export const isKeyExcluded = (
+	key: string,
+	config: Pick<GentranslateConfig, 'excludeKeys' | 'excludePatterns'>
+): boolean =>
+	config.excludeKeys.includes(key) ||
+	config.excludePatterns.some((pattern) =>
+		toKeyPatternRegExp(pattern).test(key)
+	)
@@ -0,0 +1,98 @@
+/**
+ * Failure that will not go away by trying again, e.g. a missing API key, an
+ * authentication error or an unknown model.
+ */
+export class FatalTranslationError extends Error {
+	constructor(message: string, options?: { cause?: unknown }) {
+		super(message, options)
+		this.name = 'FatalTranslationError'
+	}
+}
+
+/** Transient failure, e.g. a timeout, a rate limit or a malformed response. */
+export class RetryableTranslationError extends Error {
+	constructor(message: string, options?: { cause?: unknown }) {
+		super(message, options)
+		this.name = 'RetryableTranslationError'
+	}
+}
+
+export interface LocaleFailure {
+	locale: string
+	path: string
+	error: string
+	fatal: boolean
+}
+
+/** Thrown at the end of a run in which at least one locale failed. */
+export class TranslationRunError extends Error {
+	constructor(public readonly failures: LocaleFailure[]) {
+		super(
+			`${failures.length} locale${failures.length === 1 ? '' : 's'} failed:\n${failures
+				.map((f) => `  - ${f.locale} (${f.path}): ${f.error}`)
+				.join('\n')}`
+		)
+		this.name = 'TranslationRunError'
+	}
+}
+
+const RETRYABLE_NETWORK_CODES = [
+	'ECONNRESET',
+	'ECONNABORTED',
+	'ECONNREFUSED',
+	'ETIMEDOUT',
+	'EAI_AGAIN',
+	'EPIPE',
+	'ERR_NETWORK'
+]
+
+const getStatus = (error: unknown): number | undefined => {
+	const candidate = error as {
+		status?: number
+		statusCode?: number
+		response?: { status?: number }
+	}
+	return (
+		candidate?.response?.status ?? candidate?.statusCode ?? candidate?.status
+	)
+}
+
+/**
+ * Tells retryable errors (timeouts, network errors, 408, 429, 5xx, malformed
+ * JSON) from fatal ones (401, 403, 404 such as an unknown model, other 4xx
+ * and programming errors).
+ */
+export const isRetryableError = (error: unknown): boolean => {
+	if (error instanceof FatalTranslationError) return false
+	if (error instanceof RetryableTranslationError) return true
+	if (error instanceof SyntaxError) return true
+	const status = getStatus(error)
+	if (status !== undefined) {
+		return status === 408 || status === 429 || status >= 500
+	}
+	const code = (error as { code?: string })?.code
+	if (code && RETRYABLE_NETWORK_CODES.includes(code)) return true
+	if (error instanceof TypeError || error instanceof ReferenceError) {
+		return false
+	}
+	return /timeout|timed out|socket hang up/i.test(String(error))
+}
+
+/**
+ * Fatal errors caused by the provider setup (missing key, authentication,
+ * unknown model) rather than by one locale, every other locale would fail
+ * the same way.
+ */
+export const isProviderSetupError = (error: unknown): boolean => {
+	if (error instanceof FatalTranslationError) return true
+	const status = getStatus(error)
+	return status === 401 || status === 403 || status === 404
+}
+
+export const describeError = (error: unknown): string => {
+	const status = getStatus(error)
+	const message = error instanceof Error ? error.message : String(error)
+	return status !== undefined && !message.includes(String(status))
+		? `HTTP ${status}: ${message}`
+		: message
+}
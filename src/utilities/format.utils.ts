@@ -0,0 +1,120 @@
+import type { KeyDescription } from '@/utilities/metadata.utils'
+
+export type TranslationObject = Record<string, string | object>
+
+export interface TranslationFormat {
+	readonly name: string
+	// keys are used verbatim instead of being split on "." (gettext, .strings)
+	readonly flatKeys: boolean
+	parse(content: string): TranslationObject
+	/**
+	 * Serializes `json` back into the file format. `sources` carries the
+	 * source-language text of keys set during the run, bilingual formats
+	 * (gettext, XLIFF) need it to create new entries.
+	 */
+	serialize(json: TranslationObject, sources: Map<string, string>): string
+	// context stored next to a message (ARB `@key`, Chrome `description`)
+	describe?(key: string): KeyDescription | undefined
+	// untranslated data of a message, e.g. placeholders, copied to new entries
+	getMetadata?(key: string): object | undefined
+	setMetadata?(key: string, metadata: object): void
+	// formats recording their own locale, e.g. ARB `@@locale`
+	setLocale?(code: string): void
+	// a new file takes the layout of the source, e.g. the YAML `<locale>:` root
+	useLayoutOf?(source: TranslationFormat): void
+}
+
+const XML_ENTITIES: Record<string, string> = {
+	'&amp;': '&',
+	'&lt;': '<',
+	'&gt;': '>',
+	'&quot;': '"',
+	'&apos;': "'"
+}
+
+export const unescapeXml = (text: string): string =>
+	text
+		.replace(/&#x([0-9a-fA-F]+);/g, (_, hex) =>
+			String.fromCodePoint(parseInt(hex, 16))
+		)
+		.replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+		.replace(/&(amp|lt|gt|quot|apos);/g, (entity) => XML_ENTITIES[entity])
+
+export const escapeXml = (text: string): string =>
+	text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+export const escapeXmlAttribute = (text: string): string =>
+	escapeXml(text).replace(/"/g, '&quot;')
+
+export const escapeRegExp = (text: string): string =>
+	text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+export const getXmlAttribute = (
+	tag: string,
+	name: string
+): string | undefined => {
+	const match = tag.match(
+		new RegExp(`\\s${escapeRegExp(name)}\\s*=\\s*("([^"]*)"|'([^']*)')`)
+	)
+	if (!match) return undefined
+	return unescapeXml(match[2] ?? match[3])
+}
+
+/**
+ * Flattens nested objects into dot separated keys, the same shape
+ * `TranslationJson.flatten` exposes.
+ */
+export const flattenObject = (
+	object: TranslationObject,
+	parentKeys: string[] = [],
+	result: Map<string, string> = new Map()
+): Map<string, string> => {
+	for (const [key, value] of Object.entries(object)) {
+		if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+			flattenObject(value as TranslationObject, [...parentKeys, key], result)
+		} else if (typeof value === 'string') {
+			result.set([...parentKeys, key].join('.'), value)
+		}
+	}
+	return result
+}
+
+/**
+ * Returns `object` with its keys, at every depth, in the order they appear in
+ * `reference`. Keys missing from `reference` keep their relative order after
+ * the known ones.
+ */
+export const orderKeysLike = (
+	object: TranslationObject,
+	reference: TranslationObject
+): TranslationObject => {
+	const referenceKeys = Object.keys(reference)
+	const rank = (key: string) => {
+		const index = referenceKeys.indexOf(key)
+		return index === -1 ? referenceKeys.length : index
+	}
+	return Object.fromEntries(
+		Object.keys(object)
+			.sort((a, b) => rank(a) - rank(b))
+			.map((key) => {
+				const value = object[key]
+				const referenceValue = reference[key]
+				const isNested =
+					typeof value === 'object' &&
+					typeof referenceValue === 'object' &&
+					!Array.isArray(value)
+				return [
+					key,
+					isNested
+						? orderKeysLike(
+								value as TranslationObject,
+								referenceValue as TranslationObject
+							)
+						: value
+				]
+			})
+	)
+}
+
+export const detectEol = (content: string): string =>
+	content.includes('\r\n') ? '\r\n' : '\n'
@@ -0,0 +1,84 @@
+import { execFileSync } from 'node:child_process'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+
+// large locale files are read through `git show` in one go
+const GIT_MAX_BUFFER = 64 * 1024 * 1024
+
+export class GitError extends Error {
+	constructor(message: string, options?: { cause?: unknown }) {
+		super(message, options)
+		this.name = 'GitError'
+	}
+}
+
+const git = (cwd: string, args: string[]): string => {
+	try {
+		return execFileSync('git', args, {
+			cwd,
+			encoding: 'utf-8',
+			maxBuffer: GIT_MAX_BUFFER,
+			stdio: ['ignore', 'pipe', 'pipe']
+		})
+	} catch (error) {
+		const { code, stderr } = error as { code?: string; stderr?: string }
+		if (code === 'ENOENT') {
+			throw new GitError('git is not installed or not on the PATH', {
+				cause: error
+			})
+		}
+		throw new GitError(
+			`git ${args.join(' ')} failed: ${String(stderr ?? error).trim()}`,
+			{ cause: error }
+		)
+	}
+}
+
+// folder git commands run in, the file itself or its parent folder
+const getWorkingFolder = (filePath: string) => {
+	const resolved = path.resolve(filePath)
+	return fs.existsSync(resolved) && fs.statSync(resolved).isDirectory()
+		? resolved
+		: path.dirname(resolved)
+}
+
+/** Commit a ref such as `HEAD~1` or `v1.2.0` points to. */
+export const resolveCommit = (filePath: string, ref: string): string =>
+	git(getWorkingFolder(filePath), [
+		'rev-parse',
+		'--verify',
+		`${ref}^{commit}`
+	]).trim()
+
+/**
+ * Commit the current branch forked from `ref`, so that a PR is compared
+ * without the changes made to `origin/main` since.
+ */
+export const getMergeBase = (filePath: string, ref: string): string =>
+	git(getWorkingFolder(filePath), ['merge-base', ref, 'HEAD']).trim()
+
+/**
+ * Content of a file at a commit, undefined when the file did not exist in
+ * it yet.
+ */
+export const readFileAtCommit = (
+	filePath: string,
+	commit: string
+): string | undefined => {
+	const resolved = path.resolve(filePath)
+	try {
+		// `./` makes the path relative to the working folder, not the repo root
+		return git(path.dirname(resolved), [
+			'show',
+			`${commit}:./${path.basename(resolved)}`
+		])
+	} catch (error) {
+		if (
+			error instanceof GitError &&
+			/does not exist in|exists on disk, but not in/.test(error.message)
+		) {
+			return undefined
+		}
+		throw error
+	}
+}
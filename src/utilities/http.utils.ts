@@ -0,0 +1,57 @@
+import { HTTP_AUTH_MODES, HTTP_TOKEN_ENV } from '@/constants/sink.constants'
+
+export type HttpAuth = (typeof HTTP_AUTH_MODES)[number]
+
+export const isUrl = (pathOrUrl: string): boolean =>
+	/^https?:\/\//i.test(pathOrUrl)
+
+/**
+ * Parses `Name: value` header flags, the value may itself contain colons.
+ */
+export const parseHeaders = (headers: string[]): Record<string, string> => {
+	const result: Record<string, string> = {}
+	for (const header of headers) {
+		const separator = header.indexOf(':')
+		if (separator <= 0) {
+			throw new Error(`Invalid header "${header}", expected "Name: value"`)
+		}
+		result[header.slice(0, separator).trim()] = header
+			.slice(separator + 1)
+			.trim()
+	}
+	return result
+}
+
+/**
+ * Expands `${NAME}` references to environment variables so secrets stay out
+ * of config files. With `auth: "env"` a bearer token from
+ * $GENTRANSLATE_HTTP_TOKEN is added unless an Authorization header is set.
+ */
+export const resolveHttpHeaders = (
+	headers: Record<string, string> = {},
+	auth?: HttpAuth
+): Record<string, string> => {
+	const resolved = Object.fromEntries(
+		Object.entries(headers).map(([name, value]) => [
+			name,
+			value.replace(/\$\{(\w+)\}/g, (_, variable: string) => {
+				const resolvedValue = process.env[variable]
+				if (resolvedValue === undefined) {
+					throw new Error(
+						`Header "${name}" references ${variable}, which is not set`
+					)
+				}
+				return resolvedValue
+			})
+		])
+	)
+	const hasAuthorization = Object.keys(resolved).some(
+		(name) => name.toLowerCase() === 'authorization'
+	)
+	if (auth !== 'env' || hasAuthorization) return resolved
+	const token = process.env[HTTP_TOKEN_ENV]
+	if (!token) {
+		throw new Error(`auth is "env", but ${HTTP_TOKEN_ENV} is not set`)
+	}
+	return { ...resolved, Authorization: `Bearer ${token}` }
+}
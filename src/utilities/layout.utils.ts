@@ -0,0 +1,234 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import {
+	ANDROID_STRINGS_FILE_NAME,
+	APPLE_STRINGS_FILE_NAME,
+	CHROME_MESSAGES_FILE_NAME
+} from '@/constants/format.constants'
+import { getFileExtension, getFileName } from '@/formats/format.factory'
+import { escapeRegExp } from '@/utilities/format.utils'
+
+/**
+ * Where the files of each locale live:
+ * - `chrome`: `_locales/<code>/messages.json`, one folder per locale
+ * - `android`: `res/values-<qualifier>/strings.xml`, `values/` is the source
+ * - `apple`: `<code>.lproj/Localizable.strings`, one folder per locale
+ * - `arb`: `app_<code>.arb`, the locale is the suffix of the file name
+ * - `flat`: `<code>.json`, `<code>.yaml`, … the file name is the locale
+ */
+export type LocaleFileLayout = 'chrome' | 'android' | 'apple' | 'arb' | 'flat'
+
+const getParentFolder = (pathOrUrl: string) =>
+	pathOrUrl.split(/[?#]/)[0].split('/').slice(-2)[0] ?? ''
+
+const isAndroidValuesFolder = (folder: string) => /^values(-|$)/.test(folder)
+
+const isAppleLocaleFolder = (folder: string) => folder.endsWith('.lproj')
+
+export const getLocaleFileLayout = (pathOrUrl: string): LocaleFileLayout => {
+	if (getFileName(pathOrUrl) === CHROME_MESSAGES_FILE_NAME) return 'chrome'
+	if (
+		getFileExtension(pathOrUrl) === '.xml' &&
+		isAndroidValuesFolder(getParentFolder(pathOrUrl))
+	) {
+		return 'android'
+	}
+	if (isAppleLocaleFolder(getParentFolder(pathOrUrl))) return 'apple'
+	if (getFileExtension(pathOrUrl) === '.arb') return 'arb'
+	return 'flat'
+}
+
+/**
+ * File each subfolder of a locale folder holds for its locale, found without
+ * a path template: `de/messages.json`, `values-de/strings.xml` or
+ * `de.lproj/Localizable.strings`.
+ */
+export const getLocaleFolderFileName = (folder: string): string =>
+	isAppleLocaleFolder(folder)
+		? APPLE_STRINGS_FILE_NAME
+		: isAndroidValuesFolder(folder)
+			? ANDROID_STRINGS_FILE_NAME
+			: CHROME_MESSAGES_FILE_NAME
+
+// Chrome and Flutter separate the region with an underscore (`pt_BR`)
+const toFileLocale = (code: string) => code.replace(/-/g, '_')
+
+// Android resource qualifiers: `pt-BR` is `pt-rBR`, `zh-Hant` is `b+zh+Hant`
+const toAndroidQualifier = (code: string) => {
+	const [language, ...subtags] = code.split('-')
+	if (subtags.length === 0) return language
+	if (subtags.length === 1 && /^([A-Z]{2}|\d{3})$/.test(subtags[0])) {
+		return `${language}-r${subtags[0]}`
+	}
+	return `b+${[language, ...subtags].join('+')}`
+}
+
+const fromAndroidQualifier = (qualifier: string) =>
+	qualifier.startsWith('b+')
+		? qualifier.slice(2).replace(/\+/g, '-')
+		: qualifier.replace(/-r([A-Za-z]{2}|\d{3})$/, '-$1')
+
+const getStem = (pathOrUrl: string) => {
+	const fileName = getFileName(pathOrUrl)
+	return fileName.slice(0, fileName.length - getFileExtension(fileName).length)
+}
+
+/**
+ * Locale codes a file may belong to, most specific first: `app_pt_BR.arb`
+ * gives `pt-BR` then `BR`, `_locales/zh_CN/messages.json` gives `zh-CN`.
+ */
+export const getLocaleCodeCandidates = (pathOrUrl: string): string[] => {
+	const path = pathOrUrl.split(/[?#]/)[0]
+	switch (getLocaleFileLayout(path)) {
+		case 'chrome':
+			return [getParentFolder(path).replace(/_/g, '-')]
+		case 'android': {
+			// `values/` holds the default resources, it names no locale
+			const qualifier = getParentFolder(path).slice('values-'.length)
+			return qualifier ? [fromAndroidQualifier(qualifier)] : []
+		}
+		case 'apple':
+			return [getParentFolder(path).slice(0, -'.lproj'.length)]
+		case 'arb': {
+			const parts = getStem(path).split('_')
+			return parts.map((_, index) => parts.slice(index).join('-'))
+		}
+		default:
+			return [getStem(path)]
+	}
+}
+
+/**
+ * Path of the `code` locale file in `folder`, following the path template
+ * when there is one, the layout of the source file otherwise: `app_en.arb`
+ * gives `<folder>/app_<code>.arb`.
+ */
+export const getLocaleFilePath = (
+	folder: string,
+	sourcePath: string,
+	code: string,
+	sourceLocale: string,
+	pathTemplate?: string
+): string => {
+	if (pathTemplate) {
+		const namespace = getTemplateNamespace(pathTemplate, folder, sourcePath)
+		return `${folder}/${expandPathTemplate(pathTemplate, { locale: code, namespace })}`
+	}
+	switch (getLocaleFileLayout(sourcePath)) {
+		case 'chrome':
+			return `${folder}/${toFileLocale(code)}/${CHROME_MESSAGES_FILE_NAME}`
+		case 'android':
+			return `${folder}/values-${toAndroidQualifier(code)}/${getFileName(sourcePath)}`
+		case 'apple':
+			return `${folder}/${code}.lproj/${getFileName(sourcePath)}`
+		case 'arb': {
+			const stem = getStem(sourcePath)
+			const sourceSuffix = `_${toFileLocale(sourceLocale)}`
+			// templates without a locale suffix, e.g. `intl_messages.arb`
+			const prefix = stem.endsWith(sourceSuffix)
+				? stem.slice(0, -sourceSuffix.length)
+				: stem
+			return `${folder}/${prefix}_${toFileLocale(code)}.arb`
+		}
+		default:
+			return `${folder}/${code}${getFileExtension(sourcePath) || '.json'}`
+	}
+}
+
+/**
+ * Locale file found through a path template such as
+ * `locales/{locale}/{namespace}.json`, relative to the searched folder.
+ */
+export interface LocaleFileMatch {
+	path: string
+	locale: string
+	namespace?: string
+}
+
+const TEMPLATE_PLACEHOLDER_PATTERN = /(\{locale\}|\{namespace\})/
+
+const compilePathTemplate = (template: string): RegExp =>
+	new RegExp(
+		`^${template
+			.split(TEMPLATE_PLACEHOLDER_PATTERN)
+			.map((part) => {
+				// language, then script, region or variant subtags (`zh-Hant`, `pt_BR`)
+				if (part === '{locale}') {
+					return '(?<locale>[A-Za-z]{2,3}(?:[-_][A-Za-z0-9]{2,8})*)'
+				}
+				if (part === '{namespace}') return '(?<namespace>[^/]+?)'
+				return escapeRegExp(part)
+			})
+			.join('')}$`
+	)
+
+export const hasNamespace = (template: string): boolean =>
+	template.includes('{namespace}')
+
+export const expandPathTemplate = (
+	template: string,
+	values: { locale: string; namespace?: string }
+): string =>
+	template
+		.replace(/\{locale\}/g, values.locale)
+		.replace(/\{namespace\}/g, values.namespace ?? '')
+
+// parses a path relative to the folder of the template, e.g. `de/common.json`
+export const matchPathTemplate = (
+	template: string,
+	relativePath: string
+): LocaleFileMatch | undefined => {
+	const groups = relativePath.match(compilePathTemplate(template))?.groups
+	if (!groups) return undefined
+	return {
+		path: relativePath,
+		locale: groups.locale,
+		namespace: groups.namespace
+	}
+}
+
+/**
+ * Locale files of `folder` matching `template`, searched no deeper than the
+ * template goes.
+ */
+export const findLocaleFiles = (
+	folder: string,
+	template: string
+): LocaleFileMatch[] => {
+	const depth = template.split('/').length
+	const matches: LocaleFileMatch[] = []
+	const walk = (relativeFolder: string, level: number) => {
+		const entries = fs.readdirSync(
+			relativeFolder ? `${folder}/${relativeFolder}` : folder,
+			{ withFileTypes: true }
+		)
+		for (const entry of entries) {
+			if (entry.name.startsWith('.')) continue
+			const relativePath = relativeFolder
+				? `${relativeFolder}/${entry.name}`
+				: entry.name
+			if (entry.isDirectory() && level < depth) walk(relativePath, level + 1)
+			if (!entry.isFile()) continue
+			const match = matchPathTemplate(template, relativePath)
+			if (match) matches.push(match)
+		}
+	}
+	walk('', 1)
+	return matches.sort((a, b) => a.path.localeCompare(b.path))
+}
+
+/**
+ * Namespace of a source file: the one of its path when it lies in `folder`
+ * and matches the template, its file name otherwise (`common.json`).
+ */
+export const getTemplateNamespace = (
+	template: string,
+	folder: string,
+	filePath: string
+): string | undefined => {
+	if (!hasNamespace(template)) return undefined
+	const relativePath = path.relative(folder, filePath).split(path.sep).join('/')
+	return (
+		matchPathTemplate(template, relativePath)?.namespace ?? getStem(filePath)
+	)
+}
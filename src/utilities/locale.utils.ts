@@ -0,0 +1,31 @@
+import {
+	LANGUAGE_ALIASES,
+	LANGUAGE_ENTRIES
+} from '@/constants/language.constants'
+
+/**
+ * BCP-47 casing of a locale code, with underscores as separators:
+ * `pt_br` gives `pt-BR`, `zh-hant` gives `zh-Hant`, `SR-latn` gives `sr-Latn`.
+ */
+export const normalizeLocaleCode = (code: string): string =>
+	code
+		.trim()
+		.replace(/_/g, '-')
+		.split('-')
+		.map((subtag, index) => {
+			if (index === 0) return subtag.toLowerCase()
+			// script
+			if (/^[A-Za-z]{4}$/.test(subtag)) {
+				return subtag[0].toUpperCase() + subtag.slice(1).toLowerCase()
+			}
+			// region
+			if (/^([A-Za-z]{2}|\d{3})$/.test(subtag)) return subtag.toUpperCase()
+			return subtag
+		})
+		.join('-')
+
+// `de`, `pt-BR`, `zh` or `zh-Hant`: any locale of a known language
+export const isKnownLocaleCode = (code: string): boolean => {
+	const [language] = normalizeLocaleCode(code).split('-')
+	return LANGUAGE_ENTRIES.has(language) || LANGUAGE_ALIASES.has(language)
+}
@@ -0,0 +1,166 @@
+import * as fs from 'node:fs'
+import { writeFileAtomic } from '@/utilities/common.utils'
+import { hashText } from '@/utilities/memory.utils'
+
+export const TRANSLATION_LOCK_FILE_NAME = '.gentranslate-lock.json'
+
+const TRANSLATION_LOCK_VERSION = 1
+
+// `flagged` translations are pending with a failed quality check
+export type ReviewStatus = 'pending' | 'flagged' | 'reviewed'
+
+interface TranslationLockFile {
+	version: number
+	// lock locale → source key → hash of the source text it was translated from
+	locales: Record<string, Record<string, string>>
+	// lock locale → source key → whether a human checked the translation
+	review?: Record<string, Record<string, ReviewStatus>>
+}
+
+/**
+ * Entry of a locale file in the lockfile: its locale code, followed by its
+ * namespace with a `{namespace}` path template (`de/common`), as every
+ * namespace has keys of its own.
+ */
+export const getLockLocale = (locale: string, namespace?: string): string =>
+	namespace === undefined ? locale : `${locale}/${namespace}`
+
+const sortEntries = <T>(
+	locales: Record<string, Record<string, T>>
+): Record<string, Record<string, T>> =>
+	Object.fromEntries(
+		Object.keys(locales)
+			.sort()
+			.filter((locale) => Object.keys(locales[locale]).length > 0)
+			.map((locale) => [
+				locale,
+				Object.fromEntries(
+					Object.keys(locales[locale])
+						.sort()
+						.map((key) => [key, locales[locale][key]])
+				)
+			])
+	)
+
+/**
+ * Records, per locale and key, the hash of the source text each translation
+ * was made from, so `sync` can find keys whose source changed since without
+ * a base file to diff against. Also tracks which machine translations are
+ * waiting for or passed a human review.
+ */
+export class TranslationLock {
+	private locales: Record<string, Record<string, string>> = {}
+	private review: Record<string, Record<string, ReviewStatus>> = {}
+	private isDirty = false
+
+	constructor(public readonly path: string) {}
+
+	public load(): TranslationLock {
+		if (!fs.existsSync(this.path)) return this
+		const content = JSON.parse(
+			fs.readFileSync(this.path, 'utf-8')
+		) as TranslationLockFile
+		if (content.version !== TRANSLATION_LOCK_VERSION) {
+			throw new Error(
+				`Unsupported lockfile version ${content.version} in ${this.path}, expected ${TRANSLATION_LOCK_VERSION}`
+			)
+		}
+		this.locales = content.locales ?? {}
+		this.review = content.review ?? {}
+		return this
+	}
+
+	public has(locale: string, key: string): boolean {
+		return key in (this.locales[locale] ?? {})
+	}
+
+	// true when the key was translated from exactly this source text
+	public isCurrent(locale: string, key: string, source: string): boolean {
+		return this.locales[locale]?.[key] === hashText(source)
+	}
+
+	public getKeys(locale: string): string[] {
+		return Object.keys(this.locales[locale] ?? {})
+	}
+
+	public set(locale: string, key: string, source: string): TranslationLock {
+		const hash = hashText(source)
+		const entries = (this.locales[locale] ??= {})
+		if (entries[key] === hash) return this
+		entries[key] = hash
+		this.isDirty = true
+		return this
+	}
+
+	// keeps the key known but never current, e.g. after a source fallback, so
+	// it is neither adopted nor skipped by the next sync
+	public invalidate(locale: string, key: string): TranslationLock {
+		const entries = (this.locales[locale] ??= {})
+		if (entries[key] === '') return this
+		entries[key] = ''
+		this.isDirty = true
+		return this
+	}
+
+	public remove(locale: string, key: string): TranslationLock {
+		if (!this.has(locale, key)) return this
+		delete this.locales[locale][key]
+		if (this.review[locale]) delete this.review[locale][key]
+		this.isDirty = true
+		return this
+	}
+
+	public getReviewStatus(
+		locale: string,
+		key: string
+	): ReviewStatus | undefined {
+		return this.review[locale]?.[key]
+	}
+
+	public setReviewStatus(
+		locale: string,
+		key: string,
+		status: ReviewStatus
+	): TranslationLock {
+		const entries = (this.review[locale] ??= {})
+		if (entries[key] === status) return this
+		entries[key] = status
+		this.isDirty = true
+		return this
+	}
+
+	// a reviewed translation stays as long as its source text is unchanged
+	public isReviewed(locale: string, key: string, source: string): boolean {
+		return (
+			this.getReviewStatus(locale, key) === 'reviewed' &&
+			this.isCurrent(locale, key, source)
+		)
+	}
+
+	// machine translations waiting for a human review
+	public getPendingKeys(locale: string): string[] {
+		return Object.entries(this.review[locale] ?? {})
+			.filter(([, status]) => status === 'pending' || status === 'flagged')
+			.map(([key]) => key)
+	}
+
+	public getFlaggedKeys(locale: string): string[] {
+		return Object.entries(this.review[locale] ?? {})
+			.filter(([, status]) => status === 'flagged')
+			.map(([key]) => key)
+	}
+
+	public save(): TranslationLock {
+		if (!this.isDirty) return this
+		const content: TranslationLockFile = {
+			version: TRANSLATION_LOCK_VERSION,
+			locales: sortEntries(this.locales)
+		}
+		if (Object.values(this.review).some((keys) => Object.keys(keys).length)) {
+			content.review = sortEntries(this.review)
+		}
+		writeFileAtomic(this.path, JSON.stringify(content, null, 2) + '\n')
+		this.isDirty = false
+		return this
+	}
+}
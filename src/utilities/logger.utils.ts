@@ -1,17 +1,101 @@
+import * as fs from 'node:fs'
+
+export type LogLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR'
+
+export type LogFormat = 'text' | 'json'
+
+export interface LoggerOptions {
+	level?: LogLevel
+	format?: LogFormat
+	// NDJSON file receiving redacted prompts and responses
+	tracePath?: string
+	// every level goes to stderr, e.g. while stdout carries a JSON report
+	stderr?: boolean
+}
+
+const LOG_LEVELS: LogLevel[] = ['DEBUG', 'INFO', 'WARN', 'ERROR']
+
+const SECRET_PATTERNS = [
+	/\bsk-[A-Za-z0-9_-]{8,}/g,
+	/\bBearer\s+[A-Za-z0-9._~+/=-]+/gi,
+	/[\w.+-]+@[\w-]+\.[\w.-]+/g
+]
+
+/**
+ * Masks API keys, bearer tokens and email addresses, including the values
+ * of `*_API_KEY`/`*_TOKEN` environment variables.
+ */
+export const redact = (text: string): string => {
+	const secrets = Object.entries(process.env)
+		.filter(
+			([name, value]) =>
+				/(API_KEY|TOKEN|SECRET|PASSWORD)$/.test(name) &&
+				value !== undefined &&
+				value.length >= 8
+		)
+		.map(([, value]) => value as string)
+	const withoutSecrets = secrets.reduce(
+		(result, secret) => result.split(secret).join('[REDACTED]'),
+		text
+	)
+	return SECRET_PATTERNS.reduce(
+		(result, pattern) => result.replace(pattern, '[REDACTED]'),
+		withoutSecrets
+	)
+}
+
 export class Logger {
 	public readonly BASE_TEMPLATE_LOG = '[%s] %s: %s'
+	// shared by every logger, set once from the command line
+	private static options: Required<Omit<LoggerOptions, 'tracePath'>> &
+		Pick<LoggerOptions, 'tracePath'> = {
+		level: 'INFO',
+		format: 'text',
+		stderr: false
+	}
+
+	public static configure(options: LoggerOptions): void {
+		Logger.options = { ...Logger.options, ...options }
+	}
+
+	public isEnabled(level: LogLevel): boolean {
+		return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(Logger.options.level)
+	}
+
+	public log(level: LogLevel, message: string, ...args: unknown[]): void {
+		if (!this.isEnabled(level)) return
+		const time = new Date().toISOString()
+		// warnings and errors never end up in machine output on stdout
+		const write =
+			Logger.options.stderr || level === 'WARN' || level === 'ERROR'
+				? console.error
+				: console.log
+		if (Logger.options.format === 'json') {
+			write(
+				JSON.stringify({
+					time,
+					level,
+					message,
+					...(args.length > 0 ? { args } : {})
+				})
+			)
+			return
+		}
+		write(this.BASE_TEMPLATE_LOG, time, level, message, ...args)
+	}
 
-	public log(
-		level: 'INFO' | 'ERROR' | 'DEBUG' | 'WARN',
-		message: string,
-		...args: any[]
-	): void {
-		console.log(
-			this.BASE_TEMPLATE_LOG,
-			new Date().toISOString(),
-			level,
-			message,
-			...args
+	/**
+	 * Appends a redacted debug event (prompt, response) to the trace file when
+	 * one is configured.
+	 */
+	public trace(event: string, data: Record<string, unknown>): void {
+		const { tracePath } = Logger.options
+		if (!tracePath) return
+		fs.appendFileSync(
+			tracePath,
+			redact(
+				JSON.stringify({ time: new Date().toISOString(), event, ...data })
+			) + '\n'
 		)
 	}
 }
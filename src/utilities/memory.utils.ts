@@ -0,0 +1,96 @@
+import * as fs from 'node:fs'
+import { createHash } from 'node:crypto'
+import { writeFileAtomic } from '@/utilities/common.utils'
+
+export const TRANSLATION_MEMORY_FILE_NAME = '.gentranslate-memory.json'
+
+export interface TranslationMemoryEntry {
+	source: string
+	language: string
+	model: string
+	promptHash: string
+	translation: string
+	updatedAt: string
+}
+
+export const hashText = (text: string): string =>
+	createHash('sha256').update(text).digest('hex')
+
+/**
+ * Local JSON translation memory. Entries are keyed by source text, target
+ * language code, model and system prompt hash so a prompt change only
+ * invalidates the entries produced with the previous prompt.
+ */
+export class TranslationMemory {
+	private entries: Record<string, TranslationMemoryEntry> = {}
+	private isDirty = false
+	public hits = 0
+	public misses = 0
+
+	constructor(public readonly path: string) {}
+
+	public load(): TranslationMemory {
+		if (fs.existsSync(this.path)) {
+			this.entries = JSON.parse(fs.readFileSync(this.path, 'utf-8'))
+		}
+		return this
+	}
+
+	private getEntryKey(
+		source: string,
+		language: string,
+		model: string,
+		promptHash: string
+	): string {
+		return hashText([source, language, model, promptHash].join('\u0000'))
+	}
+
+	public get(
+		source: string,
+		language: string,
+		model: string,
+		promptHash: string
+	): string | undefined {
+		const entry =
+			this.entries[this.getEntryKey(source, language, model, promptHash)]
+		if (entry) this.hits++
+		else this.misses++
+		return entry?.translation
+	}
+
+	// lookup without touching the hit/miss counters, used by dry runs
+	public has(
+		source: string,
+		language: string,
+		model: string,
+		promptHash: string
+	): boolean {
+		return this.getEntryKey(source, language, model, promptHash) in this.entries
+	}
+
+	public set(
+		source: string,
+		language: string,
+		model: string,
+		promptHash: string,
+		translation: string
+	): TranslationMemory {
+		this.entries[this.getEntryKey(source, language, model, promptHash)] = {
+			source,
+			language,
+			model,
+			promptHash,
+			translation,
+			updatedAt: new Date().toISOString()
+		}
+		this.isDirty = true
+		return this
+	}
+
+	public save(): TranslationMemory {
+		if (!this.isDirty) return this
+		writeFileAtomic(this.path, JSON.stringify(this.entries, null, 2))
+		this.isDirty = false
+		return this
+	}
+}
@@ -0,0 +1,190 @@
+import * as fs from 'node:fs'
+import { ConfigError } from '@/utilities/config.utils'
+import {
+	flattenObject,
+	TranslationFormat,
+	TranslationObject
+} from '@/utilities/format.utils'
+import { parsePluralKey } from '@/utilities/plural.utils'
+
+export interface KeyDescription {
+	// what the string means and where it is shown, e.g. "verb, opens a file"
+	description?: string
+	// characters the translation may use at most
+	maxLength?: number
+}
+
+const DESCRIPTION_SUFFIX = '_description'
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const validateDescription = (
+	key: string,
+	value: unknown,
+	errors: string[]
+): KeyDescription | undefined => {
+	if (typeof value === 'string') return { description: value }
+	if (!isObject(value)) {
+		errors.push(`"${key}" must be a description or an object`)
+		return undefined
+	}
+	const { description, maxLength } = value
+	if (description !== undefined && typeof description !== 'string') {
+		errors.push(`"${key}.description" must be a string`)
+	}
+	if (
+		maxLength !== undefined &&
+		!(Number.isInteger(maxLength) && (maxLength as number) > 0)
+	) {
+		errors.push(`"${key}.maxLength" must be a positive integer`)
+	}
+	return {
+		description: description as string | undefined,
+		maxLength: maxLength as number | undefined
+	}
+}
+
+/**
+ * Per-key context for the translator: a description and a maximum length.
+ * Read from the source file, as ARB style `"@key": { "description": "…" }`
+ * entries or, when the config opts in, `key_description` siblings, and from
+ * an optional sidecar file mapping flattened keys to a description or
+ * `{ description, maxLength }`.
+ */
+export class KeyMetadata {
+	constructor(
+		private readonly entries: Map<string, KeyDescription> = new Map(),
+		// flattened source keys holding metadata, never translated
+		private readonly metadataKeys: Set<string> = new Set()
+	) {}
+
+	public static load(path: string): KeyMetadata {
+		if (!fs.existsSync(path)) {
+			throw new ConfigError(path, ['metadata file does not exist'])
+		}
+		let raw: unknown
+		try {
+			raw = JSON.parse(fs.readFileSync(path, 'utf-8'))
+		} catch (error) {
+			throw new ConfigError(path, [`invalid JSON: ${error}`])
+		}
+		if (!isObject(raw)) {
+			throw new ConfigError(path, [
+				'metadata must be an object mapping keys to a description or { description, maxLength }'
+			])
+		}
+		const errors: string[] = []
+		const entries = new Map<string, KeyDescription>()
+		for (const [key, value] of Object.entries(raw)) {
+			const description = validateDescription(key, value, errors)
+			if (description) entries.set(key, description)
+		}
+		if (errors.length > 0) throw new ConfigError(path, errors)
+		return new KeyMetadata(entries)
+	}
+
+	public static fromSource(
+		json: TranslationObject,
+		options: { descriptionKeys?: boolean } = {}
+	): KeyMetadata {
+		const metadata = new KeyMetadata()
+		metadata.collect(json, [], options.descriptionKeys ?? false)
+		return metadata
+	}
+
+	// metadata kept by the format itself, e.g. ARB and Chrome messages
+	public static fromFormat(
+		format: TranslationFormat,
+		keys: Iterable<string>
+	): KeyMetadata {
+		const entries = new Map<string, KeyDescription>()
+		for (const key of keys) {
+			const description = format.describe?.(key)
+			if (description) entries.set(key, description)
+		}
+		return new KeyMetadata(entries)
+	}
+
+	private collect(
+		object: Record<string, unknown>,
+		parentKeys: string[],
+		descriptionKeys: boolean
+	) {
+		const getPath = (key: string) => [...parentKeys, key].join('.')
+		for (const [key, value] of Object.entries(object)) {
+			if (key.startsWith('@')) {
+				// `@@locale` and friends describe the whole file
+				if (isObject(value) && !key.startsWith('@@')) {
+					const { description, maxLength } = value
+					this.entries.set(getPath(key.slice(1)), {
+						...this.entries.get(getPath(key.slice(1))),
+						...(typeof description === 'string' ? { description } : {}),
+						...(Number.isInteger(maxLength)
+							? { maxLength: maxLength as number }
+							: {})
+					})
+				}
+				this.addMetadataKeys(getPath(key), value)
+				continue
+			}
+			const base = key.slice(0, -DESCRIPTION_SUFFIX.length)
+			if (
+				descriptionKeys &&
+				key.endsWith(DESCRIPTION_SUFFIX) &&
+				typeof value === 'string' &&
+				typeof object[base] === 'string'
+			) {
+				this.entries.set(getPath(base), {
+					...this.entries.get(getPath(base)),
+					description: value
+				})
+				this.metadataKeys.add(getPath(key))
+				continue
+			}
+			if (isObject(value)) {
+				this.collect(value, [...parentKeys, key], descriptionKeys)
+			}
+		}
+	}
+
+	private addMetadataKeys(path: string, value: unknown) {
+		this.metadataKeys.add(path)
+		if (!isObject(value)) return
+		for (const key of flattenObject(value as TranslationObject).keys()) {
+			this.metadataKeys.add(`${path}.${key}`)
+		}
+	}
+
+	// entries of `other` win over the ones of this
+	public merge(other: KeyMetadata): KeyMetadata {
+		const entries = new Map(this.entries)
+		for (const [key, description] of other.entries) {
+			entries.set(key, { ...entries.get(key), ...description })
+		}
+		return new KeyMetadata(
+			entries,
+			new Set([...this.metadataKeys, ...other.metadataKeys])
+		)
+	}
+
+	public get size(): number {
+		return this.entries.size
+	}
+
+	public isMetadataKey(key: string): boolean {
+		return this.metadataKeys.has(key)
+	}
+
+	/**
+	 * Metadata of a key, plural forms (`items_one`) and grouped plurals
+	 * (`items_<plural>`) fall back to the metadata of their base key.
+	 */
+	public get(key: string): KeyDescription | undefined {
+		const exact = this.entries.get(key)
+		if (exact) return exact
+		const base =
+			parsePluralKey(key)?.base ?? key.match(/^(.+?)(_ordinal)?_<plural>$/)?.[1]
+		return base ? this.entries.get(base) : undefined
+	}
+}
@@ -0,0 +1,82 @@
+import * as fs from 'node:fs'
+import { MODEL_PRICING } from '@/constants/provider.constants'
+
+export interface TranslationEstimate {
+	requests: number
+	cached: number
+	promptTokens: number
+	completionTokens: number
+}
+
+export interface TranslationPlan extends TranslationEstimate {
+	locale: string
+	language: string
+	path: string
+	add: string[]
+	change: string[]
+	remove: string[]
+	estimatedCost: number | null
+}
+
+// rough heuristic, ~4 characters per token for latin scripts
+export const estimateTokens = (text: string): number =>
+	Math.ceil(text.length / 4)
+
+export const estimateCost = (
+	model: string,
+	promptTokens: number,
+	completionTokens: number
+): number | null => {
+	const pricing = MODEL_PRICING.get(model)
+	if (!pricing) return null
+	return (
+		(promptTokens * pricing.input + completionTokens * pricing.output) /
+		1_000_000
+	)
+}
+
+const formatCost = (cost: number | null) =>
+	cost === null ? 'unknown' : `$${cost.toFixed(4)}`
+
+export const summarizePlans = (plans: TranslationPlan[]) => {
+	const costs = plans.map((p) => p.estimatedCost)
+	return {
+		locales: plans.length,
+		add: plans.reduce((sum, p) => sum + p.add.length, 0),
+		change: plans.reduce((sum, p) => sum + p.change.length, 0),
+		remove: plans.reduce((sum, p) => sum + p.remove.length, 0),
+		requests: plans.reduce((sum, p) => sum + p.requests, 0),
+		promptTokens: plans.reduce((sum, p) => sum + p.promptTokens, 0),
+		completionTokens: plans.reduce((sum, p) => sum + p.completionTokens, 0),
+		estimatedCost: costs.some((c) => c === null)
+			? null
+			: costs.reduce((sum: number, c) => sum + (c as number), 0)
+	}
+}
+
+export const formatPlans = (plans: TranslationPlan[]): string => {
+	const lines = plans.map(
+		(plan) =>
+			`${plan.locale.padEnd(8)} +${plan.add.length} ~${plan.change.length} -${plan.remove.length}  ${plan.requests} requests (${plan.cached} cached), ~${plan.promptTokens + plan.completionTokens} tokens, ${formatCost(plan.estimatedCost)}  ${plan.path}`
+	)
+	const summary = summarizePlans(plans)
+	lines.push(
+		`Total: ${summary.locales} locales, +${summary.add} ~${summary.change} -${summary.remove}, ${summary.requests} requests, ~${summary.promptTokens + summary.completionTokens} tokens, ${formatCost(summary.estimatedCost)}`
+	)
+	return lines.join('\n')
+}
+
+export const writePlans = (
+	path: string,
+	plans: TranslationPlan[],
+	extra: Record<string, unknown> = {}
+): void => {
+	fs.writeFileSync(
+		path,
+		JSON.stringify(
+			{ ...extra, summary: summarizePlans(plans), locales: plans },
+			null,
+			2
+		)
+	)
+}
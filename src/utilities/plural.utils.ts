@@ -0,0 +1,175 @@
+export type PluralType = 'cardinal' | 'ordinal'
+
+// CLDR plural categories in their canonical order
+export const PLURAL_CATEGORIES = ['zero', 'one', 'two', 'few', 'many', 'other']
+
+const PLURAL_KEY_PATTERN = /^(.+?)(_ordinal)?_(zero|one|two|few|many|other)$/
+
+export interface PluralKey {
+	base: string
+	type: PluralType
+	category: string
+}
+
+export interface PluralGroup<T extends { key: string; value: string }> {
+	// key the grouped message is translated under, never a real file key
+	key: string
+	base: string
+	type: PluralType
+	variants: Map<string, T>
+}
+
+const sortCategories = (categories: string[]) =>
+	[...categories].sort(
+		(a, b) => PLURAL_CATEGORIES.indexOf(a) - PLURAL_CATEGORIES.indexOf(b)
+	)
+
+/**
+ * CLDR plural categories used by a language, e.g. `one, other` for English,
+ * `other` for Japanese and all six for Arabic. Unknown codes fall back to
+ * the English categories.
+ */
+export const getPluralCategories = (
+	code: string,
+	type: PluralType = 'cardinal'
+): string[] => {
+	try {
+		return sortCategories(
+			new Intl.PluralRules(code, { type }).resolvedOptions().pluralCategories
+		)
+	} catch {
+		return ['one', 'other']
+	}
+}
+
+/** Parses i18next plural keys such as `items_one` or `place_ordinal_few`. */
+export const parsePluralKey = (key: string): PluralKey | undefined => {
+	const match = key.match(PLURAL_KEY_PATTERN)
+	if (!match) return undefined
+	return {
+		base: match[1],
+		type: match[2] ? 'ordinal' : 'cardinal',
+		category: match[3]
+	}
+}
+
+export const getPluralKey = (
+	base: string,
+	type: PluralType,
+	category: string
+): string => `${base}${type === 'ordinal' ? '_ordinal' : ''}_${category}`
+
+export const getPluralGroupKey = (base: string, type: PluralType): string =>
+	getPluralKey(base, type, '<plural>')
+
+/**
+ * Splits entries into i18next plural groups and the remaining single
+ * entries. A group needs an `other` form plus at least one more category so
+ * that keys like `option_other` alone are left alone.
+ */
+export const groupPluralVariants = <T extends { key: string; value: string }>(
+	entries: T[]
+): { groups: PluralGroup<T>[]; singles: T[] } => {
+	const candidates = new Map<string, PluralGroup<T>>()
+	for (const entry of entries) {
+		const pluralKey = parsePluralKey(entry.key)
+		if (!pluralKey) continue
+		const groupKey = getPluralGroupKey(pluralKey.base, pluralKey.type)
+		const group = candidates.get(groupKey) ?? {
+			key: groupKey,
+			base: pluralKey.base,
+			type: pluralKey.type,
+			variants: new Map<string, T>()
+		}
+		group.variants.set(pluralKey.category, entry)
+		candidates.set(groupKey, group)
+	}
+	const groups = Array.from(candidates.values()).filter(
+		(group) => group.variants.has('other') && group.variants.size > 1
+	)
+	const grouped = new Set(
+		groups.flatMap((group) =>
+			Array.from(group.variants.values(), (entry) => entry.key)
+		)
+	)
+	return {
+		groups,
+		singles: entries.filter((entry) => !grouped.has(entry.key))
+	}
+}
+
+/**
+ * Joins plural forms into one ICU message (`{count, plural, one {..} other
+ * {..}}`) so they are translated together and the target language can use
+ * its own categories.
+ */
+export const createIcuPlural = (
+	variants: Map<string, string>,
+	type: PluralType
+): string => {
+	const options = sortCategories(Array.from(variants.keys()))
+		.map((category) => `${category} {${variants.get(category)}}`)
+		.join(' ')
+	return `{count, ${type === 'ordinal' ? 'selectordinal' : 'plural'}, ${options}}`
+}
+
+/**
+ * Reverse of `createIcuPlural`: returns the message of every category, or
+ * undefined when the text is not a single top-level plural. Exact matches
+ * (`=0`) have no i18next counterpart and are dropped.
+ */
+export const splitIcuPlural = (
+	message: string
+): Record<string, string> | undefined => {
+	const header = message.match(
+		/^\s*\{\s*[^\s,{}]+\s*,\s*(?:plural|selectordinal)\s*,(?:\s*offset:\d+)?/
+	)
+	if (!header) return undefined
+	const result: Record<string, string> = {}
+	let position = header[0].length
+	while (position < message.length) {
+		const selectorMatch = message.slice(position).match(/^\s*([^\s{}]*)\s*/)
+		const selector = selectorMatch?.[1] ?? ''
+		position += selectorMatch?.[0].length ?? 0
+		if (message[position] === '}') {
+			const isEnd = selector === '' && message.slice(position + 1).trim() === ''
+			return isEnd && 'other' in result ? result : undefined
+		}
+		if (message[position] !== '{' || selector === '') return undefined
+		const start = position + 1
+		let depth = 0
+		for (; position < message.length; position++) {
+			if (message[position] === '{') depth++
+			else if (message[position] === '}' && --depth === 0) break
+		}
+		if (depth !== 0) return undefined
+		if (PLURAL_CATEGORIES.includes(selector)) {
+			result[selector] = message.slice(start, position)
+		}
+		position++
+	}
+	return undefined
+}
+
+/**
+ * Forms of a translated plural message as the i18next keys of the
+ * categories `code` uses. A category the message lacks falls back to its
+ * `other` form, and a message that is not a plural to the source forms.
+ */
+export const expandIcuPlural = (
+	base: string,
+	type: PluralType,
+	message: string,
+	sourceVariants: Record<string, string>,
+	code: string
+): { key: string; value: string; sourceValue: string }[] => {
+	const translatedVariants = splitIcuPlural(message) ?? sourceVariants
+	return getPluralCategories(code, type).map((category) => ({
+		key: getPluralKey(base, type, category),
+		value:
+			translatedVariants[category] ??
+			translatedVariants.other ??
+			sourceVariants.other,
+		sourceValue: sourceVariants[category] ?? sourceVariants.other ?? message
+	}))
+}
@@ -0,0 +1,241 @@
+import axios from 'axios'
+import {
+	DEFAULT_MODELS,
+	DEFAULT_OPENAI_BASE_URL,
+	DEFAULT_PROVIDER,
+	PROVIDER_NAMES
+} from '@/constants/provider.constants'
+
+import { OpenRouter } from '@openrouter/sdk'
+import {
+	FatalTranslationError,
+	RetryableTranslationError
+} from '@/utilities/error.utils'
+
+export type TranslationProviderName = (typeof PROVIDER_NAMES)[number]
+
+export interface TranslationProviderRequest {
+	systemPrompt: string
+	userPrompt: string
+	// numeric index -> source string, the same keys are expected back
+	inputs: Record<string, string>
+	language: { code: string; name: string }
+}
+
+export interface TranslationProviderUsage {
+	promptTokens: number
+	completionTokens: number
+}
+
+export interface TranslationProviderResponse {
+	translations: Record<string, string>
+	usage?: TranslationProviderUsage
+}
+
+export interface TranslationProvider {
+	// a TranslationProviderName, or any name for a provider given to the API
+	readonly name: string
+	readonly model: string
+	translate(
+		request: TranslationProviderRequest
+	): Promise<TranslationProviderResponse>
+}
+
+export interface TranslationProviderOptions {
+	provider?: string
+	model?: string
+	baseUrl?: string
+	apiKey?: string
+}
+
+const buildResponseSchema = (keys: string[]) => ({
+	type: 'object',
+	properties: Object.fromEntries(keys.map((k) => [k, { type: 'string' }])),
+	required: keys,
+	additionalProperties: false
+})
+
+const parseResponseContent = (content: unknown): Record<string, string> => {
+	if (typeof content !== 'string') {
+		throw new RetryableTranslationError('Unexpected response format from LLM')
+	}
+	try {
+		return JSON.parse(content)
+	} catch (error) {
+		throw new RetryableTranslationError(
+			`Malformed JSON in LLM response: ${error}`,
+			{ cause: error }
+		)
+	}
+}
+
+export class OpenRouterProvider implements TranslationProvider {
+	public readonly name = 'openrouter'
+	private client: OpenRouter
+
+	constructor(
+		public readonly model: string,
+		private readonly apiKey?: string
+	) {
+		this.client = new OpenRouter({ apiKey })
+	}
+
+	public async translate(
+		request: TranslationProviderRequest
+	): Promise<TranslationProviderResponse> {
+		// checked here rather than on creation so dry runs work without a key
+		if (!this.apiKey) {
+			throw new FatalTranslationError(
+				'Missing OpenRouter API key, set OPENROUTER_API_KEY or GENTRANSLATE_API_KEY'
+			)
+		}
+		const keys = Object.keys(request.inputs)
+		const response = await this.client.chat.send({
+			chatGenerationParams: {
+				model: this.model,
+				messages: [
+					{
+						role: 'user',
+						content: `${request.systemPrompt}\n${request.userPrompt}`
+					}
+				],
+				stream: false,
+				responseFormat: {
+					type: 'json_schema',
+					jsonSchema: {
+						name: 'translations',
+						strict: true,
+						schema: buildResponseSchema(keys)
+					}
+				}
+			}
+		})
+
+		return {
+			translations: parseResponseContent(response.choices[0]?.message?.content),
+			usage: response.usage
+				? {
+						promptTokens: response.usage.promptTokens,
+						completionTokens: response.usage.completionTokens
+					}
+				: undefined
+		}
+	}
+}
+
+/**
+ * Any server exposing the OpenAI `/chat/completions` endpoint, e.g. a local
+ * llama.cpp or Ollama server.
+ */
+export class OpenAICompatibleProvider implements TranslationProvider {
+	public readonly name = 'openai'
+
+	constructor(
+		public readonly model: string,
+		private readonly baseUrl: string,
+		private readonly apiKey?: string
+	) {}
+
+	public async translate(
+		request: TranslationProviderRequest
+	): Promise<TranslationProviderResponse> {
+		const keys = Object.keys(request.inputs)
+		const response = await axios.post(
+			`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+			{
+				model: this.model,
+				messages: [
+					{ role: 'system', content: request.systemPrompt },
+					{ role: 'user', content: request.userPrompt }
+				],
+				stream: false,
+				response_format: {
+					type: 'json_schema',
+					json_schema: {
+						name: 'translations',
+						strict: true,
+						schema: buildResponseSchema(keys)
+					}
+				}
+			},
+			{
+				headers: this.apiKey
+					? { Authorization: `Bearer ${this.apiKey}` }
+					: undefined
+			}
+		)
+
+		const usage = response.data?.usage
+		return {
+			translations: parseResponseContent(
+				response.data?.choices?.[0]?.message?.content
+			),
+			usage: usage
+				? {
+						promptTokens: usage.prompt_tokens ?? 0,
+						completionTokens: usage.completion_tokens ?? 0
+					}
+				: undefined
+		}
+	}
+}
+
+/**
+ * Deterministic offline provider returning every input unchanged. Useful for
+ * CI runs and for exercising the pipeline without network access.
+ */
+export class EchoProvider implements TranslationProvider {
+	public readonly name = 'echo'
+	public readonly model = 'echo'
+
+	public async translate(
+		request: TranslationProviderRequest
+	): Promise<TranslationProviderResponse> {
+		return {
+			translations: { ...request.inputs },
+			usage: { promptTokens: 0, completionTokens: 0 }
+		}
+	}
+}
+
+const isProviderName = (name: string): name is TranslationProviderName =>
+	(PROVIDER_NAMES as readonly string[]).includes(name)
+
+/**
+ * Resolves a provider from explicit options, falling back to the
+ * `GENTRANSLATE_*` environment variables and finally to OpenRouter.
+ */
+export const createTranslationProvider = (
+	options: TranslationProviderOptions = {}
+): TranslationProvider => {
+	const name =
+		options.provider || process.env.GENTRANSLATE_PROVIDER || DEFAULT_PROVIDER
+	if (!isProviderName(name)) {
+		throw new Error(
+			`Unknown translation provider "${name}". Expected one of: ${PROVIDER_NAMES.join(', ')}`
+		)
+	}
+	const model =
+		options.model ||
+		process.env.GENTRANSLATE_MODEL ||
+		(DEFAULT_MODELS.get(name) as string)
+	const apiKey = options.apiKey || process.env.GENTRANSLATE_API_KEY
+
+	switch (name) {
+		case 'openrouter':
+			return new OpenRouterProvider(
+				model,
+				apiKey || process.env.OPENROUTER_API_KEY
+			)
+		case 'openai':
+			return new OpenAICompatibleProvider(
+				model,
+				options.baseUrl ||
+					process.env.GENTRANSLATE_BASE_URL ||
+					DEFAULT_OPENAI_BASE_URL,
+				apiKey || process.env.OPENAI_API_KEY
+			)
+		case 'echo':
+			return new EchoProvider()
+	}
+}
@@ -0,0 +1,144 @@
+import { PSEUDO_ACCENTS, PSEUDO_PADDING } from '@/constants/pseudo.constants'
+import {
+	parseIcuArguments,
+	PLACEHOLDER_PATTERNS,
+	TAG_PATTERN
+} from '@/utilities/validation.utils'
+
+export interface PseudoLocalizeOptions {
+	// extra length as a ratio of the letters, 0.3 makes a string 30% longer
+	expansion: number
+	// wraps every word in right-to-left overrides instead of accenting it
+	rtl?: boolean
+}
+
+// placeholders, HTML tags and entities are kept verbatim
+const PROTECTED_PATTERN = new RegExp(
+	[...PLACEHOLDER_PATTERNS, TAG_PATTERN, /&(#\d+|#x[\da-fA-F]+|[a-zA-Z]+);/]
+		.map((pattern) => pattern.source)
+		.join('|'),
+	'y'
+)
+
+const ICU_COMPLEX_TYPES = ['plural', 'select', 'selectordinal']
+
+const RIGHT_TO_LEFT_OVERRIDE = '\u202E'
+const POP_DIRECTIONAL_FORMATTING = '\u202C'
+
+const transformText = (text: string, rtl: boolean): string =>
+	rtl
+		? text.replace(
+				/\S+/g,
+				(word) =>
+					`${RIGHT_TO_LEFT_OVERRIDE}${word}${POP_DIRECTIONAL_FORMATTING}`
+			)
+		: Array.from(text, (char) => PSEUDO_ACCENTS[char] ?? char).join('')
+
+/**
+ * Pseudo-translates a message: letters are accented (or wrapped in RTL
+ * overrides), the result is padded by `expansion` and put between brackets
+ * to reveal truncation. Placeholders, tags and the ICU syntax are kept, only
+ * the text of ICU sub-messages is transformed. Deterministic.
+ */
+export const pseudoLocalize = (
+	text: string,
+	options: PseudoLocalizeOptions
+): string => {
+	if (text.trim().length === 0) return text
+	const rtl = options.rtl ?? false
+	// messages that are not valid ICU treat braces as text
+	let isIcu = true
+	try {
+		parseIcuArguments(text)
+	} catch {
+		isIcu = false
+	}
+
+	const output: string[] = []
+	let run = ''
+	let letters = 0
+	let position = 0
+
+	const flush = () => {
+		if (!run) return
+		output.push(transformText(run, rtl))
+		letters += run.match(/\p{L}/gu)?.length ?? 0
+		run = ''
+	}
+	const keep = (value: string) => {
+		flush()
+		output.push(value)
+		position += value.length
+	}
+	const readUntil = (stops: string[], from = position) => {
+		let end = from
+		while (end < text.length && !stops.includes(text[end])) end++
+		return text.slice(from, end)
+	}
+	// end of the argument starting at `position`, nested braces included
+	const findArgumentEnd = () => {
+		let depth = 0
+		for (let index = position; index < text.length; index++) {
+			if (text[index] === '{') depth++
+			if (text[index] === '}' && --depth === 0) return index + 1
+		}
+		return text.length
+	}
+
+	const parseMessage = (nested: boolean, isPlural: boolean) => {
+		while (position < text.length) {
+			PROTECTED_PATTERN.lastIndex = position
+			const match = PROTECTED_PATTERN.exec(text)
+			const char = text[position]
+			if (match && match[0].length > 0) {
+				keep(match[0])
+			} else if (!isIcu) {
+				run += char
+				position++
+			} else if (char === "'" && text[position + 1] === "'") {
+				keep("''")
+			} else if (char === "'" && '{}#'.includes(text[position + 1] ?? '')) {
+				const end = text.indexOf("'", position + 1)
+				keep(text.slice(position, end === -1 ? text.length : end + 1))
+			} else if (char === '#' && isPlural) {
+				keep('#')
+			} else if (char === '{') {
+				parseArgument()
+			} else if (char === '}' && nested) {
+				return
+			} else {
+				run += char
+				position++
+			}
+		}
+	}
+
+	const parseArgument = () => {
+		// `{name, type, ` up to the first selector or the closing brace
+		const header = '{' + readUntil(['{', '}'], position + 1)
+		const [, type] = header.split(',').map((part) => part.trim())
+		if (!ICU_COMPLEX_TYPES.includes(type)) {
+			// `{name}` and number/date arguments
+			keep(text.slice(position, findArgumentEnd()))
+			return
+		}
+		keep(header.slice(0, header.indexOf(type) + type.length))
+		keep(readUntil([',']) + ',')
+		while (position < text.length) {
+			// selector, e.g. ` one ` or ` =0 `
+			keep(readUntil(['{', '}']))
+			if (text[position] === '}') {
+				keep('}')
+				return
+			}
+			keep('{')
+			parseMessage(true, type !== 'select')
+			keep('}')
+		}
+	}
+
+	parseMessage(false, false)
+	flush()
+	const padding = PSEUDO_PADDING.repeat(Math.ceil(letters * options.expansion))
+	return `[${output.join('')}${padding}]`
+}
@@ -0,0 +1,288 @@
+import * as fs from 'node:fs'
+import {
+	LENGTH_RATIO_TOLERANCE,
+	MIN_LENGTH_RATIO_SAMPLES,
+	MIN_LENGTH_RATIO_SOURCE,
+	QUALITY_FLAGS,
+	SCRIPT_LENGTH_RATIOS,
+	SCRIPT_PROPERTIES,
+	SOURCE_SCRIPT_SHARE
+} from '@/constants/quality.constants'
+import { PLACEHOLDER_PATTERNS, TAG_PATTERN } from '@/utilities/validation.utils'
+
+export type QualityFlag = (typeof QUALITY_FLAGS)[number]
+
+export interface QualityEntry {
+	key: string
+	source: string
+	translation: string
+	// the translation translated back into the source language
+	backTranslation?: string
+}
+
+export interface QualityScore extends QualityEntry {
+	locale: string
+	// 0 to 1, how close the back-translation is to the source
+	similarity?: number
+	// length of the translation divided by the length of the source
+	lengthRatio?: number
+	flags: QualityFlag[]
+}
+
+// placeholders and tags are the same in every language, they would inflate the score
+const MARKUP_PATTERN = new RegExp(
+	[...PLACEHOLDER_PATTERNS, TAG_PATTERN]
+		.map((pattern) => pattern.source)
+		.join('|'),
+	'g'
+)
+
+const stripMarkup = (text: string) => text.replace(MARKUP_PATTERN, ' ')
+
+const normalizeText = (text: string) =>
+	stripMarkup(text)
+		.normalize('NFKC')
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, ' ')
+		.trim()
+
+const getBigrams = (text: string): Map<string, number> => {
+	const bigrams = new Map<string, number>()
+	for (const word of text.split(' ')) {
+		// single letters still count, padded as a word of their own
+		const padded = ` ${word} `
+		for (let i = 0; i < padded.length - 1; i++) {
+			const bigram = padded.slice(i, i + 2)
+			bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1)
+		}
+	}
+	return bigrams
+}
+
+/**
+ * Dice coefficient of the character bigrams of two texts, ignoring case,
+ * punctuation, placeholders and tags: 1 for the same wording, 0 for texts
+ * without a bigram in common.
+ */
+export const scoreSimilarity = (a: string, b: string): number => {
+	const left = normalizeText(a)
+	const right = normalizeText(b)
+	if (left === right) return 1
+	if (!left || !right) return 0
+	const leftBigrams = getBigrams(left)
+	const rightBigrams = getBigrams(right)
+	let shared = 0
+	let total = 0
+	for (const [bigram, count] of leftBigrams) {
+		shared += Math.min(count, rightBigrams.get(bigram) ?? 0)
+		total += count
+	}
+	for (const count of rightBigrams.values()) total += count
+	return (2 * shared) / total
+}
+
+const getScriptCode = (code: string): string | undefined => {
+	try {
+		return new Intl.Locale(code).maximize().script
+	} catch {
+		return undefined
+	}
+}
+
+const isScriptProperty = (name: string) => {
+	try {
+		new RegExp(`\\p{Script=${name}}`, 'u')
+		return true
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Unicode scripts a locale is written in, from the `script` override of the
+ * config when it names one (`Latin`), else from the likely script of the
+ * locale (`sr` is Cyrillic, `sr-Latn` Latin).
+ */
+export const getLocaleScripts = (
+	code: string,
+	scriptOverride?: string
+): string[] | undefined => {
+	if (scriptOverride && isScriptProperty(scriptOverride)) {
+		return [scriptOverride]
+	}
+	const script = getScriptCode(code)
+	return script ? SCRIPT_PROPERTIES[script] : undefined
+}
+
+// share of the letters of a text written in one of the scripts
+const getScriptShare = (text: string, scripts: string[]): number => {
+	const letters = stripMarkup(text).match(/\p{L}/gu) ?? []
+	if (letters.length === 0) return 0
+	const pattern = new RegExp(
+		scripts.map((script) => `\\p{Script=${script}}`).join('|'),
+		'u'
+	)
+	return (
+		letters.filter((letter) => pattern.test(letter)).length / letters.length
+	)
+}
+
+const getTextLength = (text: string) => normalizeText(text).length
+
+const median = (values: number[]) => {
+	const sorted = [...values].sort((a, b) => a - b)
+	const middle = Math.floor(sorted.length / 2)
+	return sorted.length % 2
+		? sorted[middle]
+		: (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * Expected length ratio of a locale: the median of the run when it has
+ * enough strings, else the typical ratio between the two scripts.
+ */
+const getLengthRatioNorm = (
+	ratios: number[],
+	locale: string,
+	sourceLocale: string
+): number => {
+	if (ratios.length >= MIN_LENGTH_RATIO_SAMPLES) return median(ratios)
+	const getRatio = (code: string) =>
+		SCRIPT_LENGTH_RATIOS[getScriptCode(code) ?? ''] ?? 1
+	return getRatio(locale) / getRatio(sourceLocale)
+}
+
+export interface QualityOptions {
+	locale: string
+	sourceLocale: string
+	// similarity below which a back-translated entry is flagged
+	threshold: number
+	// script override of the locale in the config
+	script?: string
+}
+
+/**
+ * Scores the translations of one locale: the similarity of their
+ * back-translation to the source, a length ratio far from the locale's
+ * norm and letters still in the source script when the scripts differ.
+ */
+export const assessQuality = (
+	entries: QualityEntry[],
+	options: QualityOptions
+): QualityScore[] => {
+	const { locale, sourceLocale, threshold } = options
+	const ratios = new Map(
+		entries
+			.filter((entry) => getTextLength(entry.source) >= MIN_LENGTH_RATIO_SOURCE)
+			.map((entry) => [
+				entry.key,
+				getTextLength(entry.translation) / getTextLength(entry.source)
+			])
+	)
+	const norm = getLengthRatioNorm(
+		Array.from(ratios.values()),
+		locale,
+		sourceLocale
+	)
+	const targetScripts = getLocaleScripts(locale, options.script)
+	const sourceScripts = getLocaleScripts(sourceLocale)
+	const checksScript =
+		targetScripts !== undefined &&
+		sourceScripts !== undefined &&
+		!targetScripts.some((script) => sourceScripts.includes(script))
+
+	return entries.map((entry) => {
+		const flags: QualityFlag[] = []
+		const similarity =
+			entry.backTranslation === undefined
+				? undefined
+				: scoreSimilarity(entry.source, entry.backTranslation)
+		if (similarity !== undefined && similarity < threshold) {
+			flags.push('low-similarity')
+		}
+		const lengthRatio = ratios.get(entry.key)
+		if (
+			lengthRatio !== undefined &&
+			(lengthRatio > norm * LENGTH_RATIO_TOLERANCE ||
+				lengthRatio < norm / LENGTH_RATIO_TOLERANCE)
+		) {
+			flags.push('length-ratio')
+		}
+		if (
+			checksScript &&
+			getScriptShare(entry.translation, sourceScripts) > SOURCE_SCRIPT_SHARE
+		) {
+			flags.push('source-script')
+		}
+		return {
+			locale,
+			...entry,
+			...(similarity === undefined
+				? {}
+				: { similarity: Math.round(similarity * 1000) / 1000 }),
+			...(lengthRatio === undefined
+				? {}
+				: { lengthRatio: Math.round(lengthRatio * 100) / 100 }),
+			flags
+		}
+	})
+}
+
+/** Back-translation scores and flags of a run, written as a JSON report. */
+export class QualityReport {
+	public readonly scores: QualityScore[] = []
+
+	public add(scores: QualityScore[]): QualityReport {
+		this.scores.push(...scores)
+		return this
+	}
+
+	public get flagged(): QualityScore[] {
+		return this.scores.filter((score) => score.flags.length > 0)
+	}
+
+	public get averageSimilarity(): number | undefined {
+		const similarities = this.scores
+			.map((score) => score.similarity)
+			.filter((similarity) => similarity !== undefined)
+		if (similarities.length === 0) return undefined
+		return (
+			similarities.reduce((sum, similarity) => sum + similarity, 0) /
+			similarities.length
+		)
+	}
+
+	public write(
+		path: string,
+		extra: Record<string, unknown> = {}
+	): QualityReport {
+		const flagCounts = Object.fromEntries(
+			QUALITY_FLAGS.map((flag) => [
+				flag,
+				this.scores.filter((score) => score.flags.includes(flag)).length
+			])
+		)
+		fs.writeFileSync(
+			path,
+			JSON.stringify(
+				{
+					...extra,
+					generatedAt: new Date().toISOString(),
+					total: this.scores.length,
+					flagged: this.flagged.length,
+					averageSimilarity: this.averageSimilarity,
+					flags: flagCounts,
+					// lowest scores first, they need a look the most
+					scores: [...this.scores].sort(
+						(a, b) =>
+							b.flags.length - a.flags.length ||
+							(a.similarity ?? 1) - (b.similarity ?? 1)
+					)
+				},
+				null,
+				2
+			)
+		)
+		return this
+	}
+}
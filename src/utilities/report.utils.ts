@@ -0,0 +1,129 @@
+import * as fs from 'node:fs'
+
+export interface TranslationUsageStats {
+	requests: number
+	// corrective, rate limited and locale level retries
+	retries: number
+	promptTokens: number
+	completionTokens: number
+}
+
+export interface LocaleReport extends TranslationUsageStats {
+	locale: string
+	language: string
+	// set when the path template has a `{namespace}`
+	namespace?: string
+	path: string
+	status: 'done' | 'failed'
+	translated: number
+	failed: number
+	elapsedMs: number
+	// keys written to the locale file, empty when it failed
+	changes: { added: string[]; changed: string[]; removed: string[] }
+	// last error of a failed locale
+	error?: string
+}
+
+export const createUsageStats = (): TranslationUsageStats => ({
+	requests: 0,
+	retries: 0,
+	promptTokens: 0,
+	completionTokens: 0
+})
+
+const formatDuration = (ms: number) =>
+	ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+
+/**
+ * Per-locale outcome of a translation run, printed as a summary table and
+ * optionally written as a JSON report.
+ */
+export class RunReport {
+	private readonly startedAt = new Date()
+	public readonly locales: LocaleReport[] = []
+
+	public add(locale: LocaleReport): RunReport {
+		this.locales.push(locale)
+		return this
+	}
+
+	public get totals() {
+		const sum = (
+			field: keyof TranslationUsageStats | 'translated' | 'failed'
+		) => this.locales.reduce((total, locale) => total + locale[field], 0)
+		return {
+			locales: this.locales.length,
+			failedLocales: this.locales.filter((l) => l.status === 'failed').length,
+			translated: sum('translated'),
+			failed: sum('failed'),
+			requests: sum('requests'),
+			retries: sum('retries'),
+			promptTokens: sum('promptTokens'),
+			completionTokens: sum('completionTokens'),
+			elapsedMs: Date.now() - this.startedAt.getTime()
+		}
+	}
+
+	public format(): string {
+		// namespaced runs list a locale once per namespace
+		const hasNamespaces = this.locales.some(
+			(locale) => locale.namespace !== undefined
+		)
+		const header = [
+			'locale',
+			...(hasNamespaces ? ['namespace'] : []),
+			'status',
+			'translated',
+			'failed',
+			'retries',
+			'tokens',
+			'elapsed'
+		]
+		const rows = this.locales.map((locale) => [
+			locale.locale,
+			...(hasNamespaces ? [locale.namespace ?? ''] : []),
+			locale.status,
+			String(locale.translated),
+			String(locale.failed),
+			String(locale.retries),
+			String(locale.promptTokens + locale.completionTokens),
+			formatDuration(locale.elapsedMs)
+		])
+		const totals = this.totals
+		rows.push([
+			'total',
+			...(hasNamespaces ? [''] : []),
+			`${totals.failedLocales} failed`,
+			String(totals.translated),
+			String(totals.failed),
+			String(totals.retries),
+			String(totals.promptTokens + totals.completionTokens),
+			formatDuration(totals.elapsedMs)
+		])
+		const widths = header.map((title, column) =>
+			Math.max(title.length, ...rows.map((row) => row[column].length))
+		)
+		return [header, ...rows]
+			.map((row) =>
+				row.map((cell, column) => cell.padEnd(widths[column])).join('  ')
+			)
+			.join('\n')
+	}
+
+	public write(path: string, extra: Record<string, unknown> = {}): RunReport {
+		fs.writeFileSync(
+			path,
+			JSON.stringify(
+				{
+					...extra,
+					startedAt: this.startedAt.toISOString(),
+					totals: this.totals,
+					locales: this.locales
+				},
+				null,
+				2
+			)
+		)
+		return this
+	}
+}
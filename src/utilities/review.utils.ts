@@ -0,0 +1,193 @@
+import {
+	REVIEW_CSV_COLUMNS,
+	REVIEW_FILE_EXTENSIONS,
+	REVIEW_FORMATS
+} from '@/constants/review.constants'
+import {
+	escapeXml,
+	escapeXmlAttribute,
+	getXmlAttribute,
+	unescapeXml
+} from '@/utilities/format.utils'
+
+export type ReviewFormat = (typeof REVIEW_FORMATS)[number]
+
+export interface ReviewEntry {
+	key: string
+	// source text the translation was made from, stale reviews are skipped
+	source: string
+	translation: string
+	context?: string
+}
+
+export interface ReviewDocument {
+	sourceLocale?: string
+	locale?: string
+	// locale file the entries belong to
+	original?: string
+	entries: ReviewEntry[]
+}
+
+export const getReviewFormat = (filePath: string): ReviewFormat | undefined => {
+	const extension = filePath.match(/\.[^./\\]+$/)?.[0]?.toLowerCase()
+	return extension
+		? (REVIEW_FILE_EXTENSIONS.get(extension) as ReviewFormat | undefined)
+		: undefined
+}
+
+export const getReviewFileExtension = (format: ReviewFormat): string =>
+	format === 'csv' ? '.csv' : '.xlf'
+
+const escapeCsv = (value: string): string =>
+	/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+// RFC 4180: quoted fields may contain separators, quotes and line breaks
+const parseCsvRows = (content: string): string[][] => {
+	const rows: string[][] = []
+	let row: string[] = []
+	let field = ''
+	let isQuoted = false
+	const text = content.replace(/^\uFEFF/, '')
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i]
+		if (isQuoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"'
+				i++
+			} else if (char === '"') {
+				isQuoted = false
+			} else {
+				field += char
+			}
+			continue
+		}
+		if (char === '"') isQuoted = true
+		else if (char === ',') {
+			row.push(field)
+			field = ''
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') i++
+			row.push(field)
+			rows.push(row)
+			row = []
+			field = ''
+		} else field += char
+	}
+	if (field !== '' || row.length > 0) {
+		row.push(field)
+		rows.push(row)
+	}
+	return rows.filter((r) => r.some((cell) => cell !== ''))
+}
+
+const serializeCsv = (document: ReviewDocument): string =>
+	[
+		REVIEW_CSV_COLUMNS.join(','),
+		...document.entries.map((entry) =>
+			[entry.key, entry.source, entry.translation, entry.context ?? '']
+				.map(escapeCsv)
+				.join(',')
+		)
+	].join('\r\n') + '\r\n'
+
+const parseCsv = (content: string): ReviewDocument => {
+	const [header, ...rows] = parseCsvRows(content)
+	const columns = (header ?? []).map((column) => column.trim().toLowerCase())
+	// reviewers may reorder columns, they are looked up by name
+	const missing = ['key', 'source', 'translation'].filter(
+		(column) => !columns.includes(column)
+	)
+	if (missing.length > 0) {
+		throw new Error(`CSV review file has no ${missing.join(', ')} column`)
+	}
+	const get = (row: string[], column: string) =>
+		row[columns.indexOf(column)] ?? ''
+	return {
+		entries: rows.map((row) => ({
+			key: get(row, 'key'),
+			source: get(row, 'source'),
+			translation: get(row, 'translation'),
+			context: get(row, 'context') || undefined
+		}))
+	}
+}
+
+const serializeXliff = (document: ReviewDocument): string => {
+	const units = document.entries.map((entry) =>
+		[
+			`      <trans-unit id="${escapeXmlAttribute(entry.key)}">`,
+			`        <source>${escapeXml(entry.source)}</source>`,
+			`        <target state="needs-review-translation">${escapeXml(entry.translation)}</target>`,
+			...(entry.context
+				? [`        <note>${escapeXml(entry.context)}</note>`]
+				: []),
+			`      </trans-unit>`
+		].join('\n')
+	)
+	const attributes = [
+		document.sourceLocale &&
+			`source-language="${escapeXmlAttribute(document.sourceLocale)}"`,
+		document.locale &&
+			`target-language="${escapeXmlAttribute(document.locale)}"`,
+		'datatype="plaintext"',
+		`original="${escapeXmlAttribute(document.original ?? 'messages')}"`
+	].filter(Boolean)
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+		`  <file ${attributes.join(' ')}>`,
+		'    <body>',
+		...units,
+		'    </body>',
+		'  </file>',
+		'</xliff>',
+		''
+	].join('\n')
+}
+
+const getXmlElement = (body: string, name: string): string | undefined => {
+	const match = body.match(
+		new RegExp(`<${name}\\b[^>]*>([\\s\\S]*?)</${name}>|<${name}\\b[^>]*/>`)
+	)
+	return match ? unescapeXml(match[1] ?? '') : undefined
+}
+
+const parseXliff = (content: string): ReviewDocument => {
+	const fileTag = content.match(/<file\b[^>]*>/)?.[0] ?? ''
+	const entries: ReviewEntry[] = []
+	for (const match of content.matchAll(
+		/<trans-unit\b([^>]*)>([\s\S]*?)<\/trans-unit>/g
+	)) {
+		const translation = getXmlElement(match[2], 'target')
+		// units without target have not been reviewed
+		if (translation === undefined) continue
+		entries.push({
+			key: getXmlAttribute(match[1], 'id') ?? '',
+			source: getXmlElement(match[2], 'source') ?? '',
+			translation,
+			context: getXmlElement(match[2], 'note')
+		})
+	}
+	return {
+		sourceLocale: getXmlAttribute(fileTag, 'source-language'),
+		locale: getXmlAttribute(fileTag, 'target-language'),
+		original: getXmlAttribute(fileTag, 'original'),
+		entries
+	}
+}
+
+/**
+ * Review files hand machine translations to human translators: XLIFF 1.2
+ * for CAT tools, CSV for spreadsheets.
+ */
+export const serializeReview = (
+	document: ReviewDocument,
+	format: ReviewFormat
+): string =>
+	format === 'csv' ? serializeCsv(document) : serializeXliff(document)
+
+export const parseReview = (
+	content: string,
+	format: ReviewFormat
+): ReviewDocument =>
+	format === 'csv' ? parseCsv(content) : parseXliff(content)
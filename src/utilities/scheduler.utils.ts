@@ -0,0 +1,155 @@
+import { Logger } from '@/utilities/logger.utils'
+
+export interface SchedulerOptions {
+	// tasks running at the same time
+	maxConcurrency: number
+	requestsPerMinute?: number
+	tokensPerMinute?: number
+	// attempts after a 429 before the error is rethrown
+	maxRateLimitRetries?: number
+}
+
+interface WindowEntry {
+	time: number
+	tokens: number
+}
+
+const WINDOW_MS = 60_000
+const DEFAULT_RATE_LIMIT_RETRIES = 5
+
+const sleep = (ms: number) =>
+	new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+const getHeader = (headers: unknown, name: string): string | undefined => {
+	if (!headers || typeof headers !== 'object') return undefined
+	if (typeof (headers as Headers).get === 'function') {
+		return (headers as Headers).get(name) ?? undefined
+	}
+	const value = (headers as Record<string, unknown>)[name]
+	return value === undefined ? undefined : String(value)
+}
+
+/**
+ * Returns the delay requested by an HTTP 429 error (axios or OpenRouter SDK),
+ * from its Retry-After header when present, or undefined for other errors.
+ */
+export const getRateLimitDelay = (
+	error: unknown,
+	attempt: number
+): number | undefined => {
+	const candidate = error as {
+		status?: number
+		statusCode?: number
+		headers?: unknown
+		response?: { status?: number; headers?: unknown }
+	}
+	const status =
+		candidate?.response?.status ?? candidate?.statusCode ?? candidate?.status
+	if (status !== 429) return undefined
+	const retryAfter = getHeader(
+		candidate.response?.headers ?? candidate.headers,
+		'retry-after'
+	)
+	if (retryAfter !== undefined) {
+		const seconds = Number(retryAfter)
+		if (!Number.isNaN(seconds)) return seconds * 1000
+		const date = Date.parse(retryAfter)
+		if (!Number.isNaN(date)) return Math.max(0, date - Date.now())
+	}
+	return Math.pow(2, attempt) * 1000
+}
+
+/**
+ * Shared FIFO scheduler for provider requests: caps the requests in flight,
+ * keeps requests and tokens within their per-minute budgets and pauses every
+ * task when a request is rate limited (HTTP 429).
+ */
+export class Scheduler {
+	private active = 0
+	private waiting: (() => void)[] = []
+	private window: WindowEntry[] = []
+	private pausedUntil = 0
+	private cancelled?: Error
+	private logger: Logger = new Logger()
+
+	constructor(private readonly options: SchedulerOptions) {}
+
+	public async run<T>(
+		task: () => Promise<T>,
+		options: { tokens?: number; onRetry?: () => void } = {}
+	): Promise<T> {
+		const maxRetries =
+			this.options.maxRateLimitRetries ?? DEFAULT_RATE_LIMIT_RETRIES
+		for (let attempt = 0; ; attempt++) {
+			await this.acquire(options.tokens ?? 0)
+			try {
+				if (this.cancelled) throw this.cancelled
+				return await task()
+			} catch (error) {
+				const delay = getRateLimitDelay(error, attempt)
+				if (delay === undefined || attempt >= maxRetries) throw error
+				this.logger.log(
+					'WARN',
+					`Rate limited by the provider, pausing requests for ${Math.ceil(delay / 1000)}s (retry ${attempt + 1}/${maxRetries})`
+				)
+				this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay)
+				options.onRetry?.()
+			} finally {
+				this.release()
+			}
+		}
+	}
+
+	/**
+	 * Rejects every task that has not started yet with `reason`, used once a
+	 * fatal error makes further requests pointless.
+	 */
+	public cancel(reason: Error): void {
+		this.cancelled ??= reason
+	}
+
+	private async acquire(tokens: number): Promise<void> {
+		// a released slot is handed over directly to the next waiting task
+		if (this.active >= this.options.maxConcurrency) {
+			await new Promise<void>((resolve) => this.waiting.push(resolve))
+		} else {
+			this.active++
+		}
+		for (let delay = this.getDelay(tokens); delay > 0; ) {
+			await sleep(delay)
+			delay = this.getDelay(tokens)
+		}
+		this.window.push({ time: Date.now(), tokens })
+	}
+
+	private release(): void {
+		const next = this.waiting.shift()
+		if (next) next()
+		else this.active--
+	}
+
+	// time to wait before a request of `tokens` fits into the budgets
+	private getDelay(tokens: number): number {
+		const now = Date.now()
+		this.window = this.window.filter((entry) => now - entry.time < WINDOW_MS)
+		const delays = [this.pausedUntil - now]
+		const { requestsPerMinute, tokensPerMinute } = this.options
+		if (requestsPerMinute && this.window.length >= requestsPerMinute) {
+			delays.push(
+				this.window[this.window.length - requestsPerMinute].time +
+					WINDOW_MS -
+					now
+			)
+		}
+		if (tokensPerMinute && this.window.length > 0) {
+			// drop the oldest entries until the new request fits
+			let used = this.window.reduce((sum, entry) => sum + entry.tokens, 0)
+			for (const entry of this.window) {
+				if (used + tokens <= tokensPerMinute) break
+				used -= entry.tokens
+				delays.push(entry.time + WINDOW_MS - now)
+			}
+		}
+		return Math.max(0, ...delays)
+	}
+}
@@ -0,0 +1,46 @@
+import { SINK_METHODS, SINK_TYPES } from '@/constants/sink.constants'
+import type { HttpAuth } from '@/utilities/http.utils'
+
+export type SinkType = (typeof SINK_TYPES)[number]
+
+export type SinkMethod = (typeof SINK_METHODS)[number]
+
+export interface SinkConfig {
+	type: SinkType
+	// `{locale}` and `{file}` are replaced for every locale file
+	url: string
+	method?: SinkMethod
+	// added to the HTTP headers of the config, `${NAME}` reads the environment
+	headers?: Record<string, string>
+	// overrides `httpAuth` of the config for this sink
+	auth?: HttpAuth
+}
+
+export interface SinkDocument {
+	locale: string
+	// local path of the locale file
+	path: string
+	format: string
+	// serialized locale file
+	content: string
+	// flattened keys set during the run and their translations
+	translations: Record<string, string>
+	removed: string[]
+}
+
+/**
+ * Destination receiving every locale file once it has been translated, e.g.
+ * an upload endpoint or a translation management system.
+ */
+export interface TranslationSink {
+	readonly name: string
+	write(document: SinkDocument): Promise<void>
+}
+
+export const expandSinkUrl = (url: string, document: SinkDocument): string =>
+	url
+		.replaceAll('{locale}', encodeURIComponent(document.locale))
+		.replaceAll(
+			'{file}',
+			encodeURIComponent(document.path.split(/[\\/]/).pop() ?? '')
+		)
@@ -0,0 +1,122 @@
+import * as fs from 'node:fs'
+import { ConfigError } from '@/utilities/config.utils'
+import {
+	isKnownLocaleCode,
+	normalizeLocaleCode
+} from '@/utilities/locale.utils'
+import { TranslationIssue } from '@/utilities/validation.utils'
+
+export interface ApprovedTerm {
+	term: string
+	translation: string
+}
+
+const escapeRegExp = (text: string) =>
+	text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Approved translations per source term and target language code, e.g.
+ * `{ "Trade-in": { "id": "Tukar Tambah", "pt_BR": "Troca" } }`. Codes are
+ * normalized like the locales of the config, `pt_BR` applies to `pt-BR`.
+ */
+export class TermBase {
+	private patterns: Map<string, RegExp>
+
+	constructor(
+		public readonly terms: Record<string, Record<string, string>> = {}
+	) {
+		this.patterns = new Map(
+			Object.keys(terms).map((term) => [
+				term,
+				new RegExp(
+					`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`,
+					'iu'
+				)
+			])
+		)
+	}
+
+	public static load(path: string): TermBase {
+		if (!fs.existsSync(path)) {
+			throw new ConfigError(path, ['term base file does not exist'])
+		}
+		let raw: unknown
+		try {
+			raw = JSON.parse(fs.readFileSync(path, 'utf-8'))
+		} catch (error) {
+			throw new ConfigError(path, [`invalid JSON: ${error}`])
+		}
+		if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+			throw new ConfigError(path, [
+				'term base must be an object mapping terms to translations'
+			])
+		}
+		const errors: string[] = []
+		const terms: Record<string, Record<string, string>> = {}
+		for (const [term, translations] of Object.entries(raw)) {
+			if (
+				typeof translations !== 'object' ||
+				translations === null ||
+				Array.isArray(translations)
+			) {
+				errors.push(
+					`"${term}" must be an object mapping language codes to the approved translation`
+				)
+				continue
+			}
+			terms[term] = {}
+			for (const [code, translation] of Object.entries(translations)) {
+				const normalized = normalizeLocaleCode(code)
+				if (!isKnownLocaleCode(code)) {
+					errors.push(`"${term}" uses unknown language code "${code}"`)
+				} else if (normalized in terms[term]) {
+					errors.push(`"${term}" lists "${normalized}" more than once`)
+				}
+				if (typeof translation !== 'string' || translation.length === 0) {
+					errors.push(`"${term}.${code}" must be a non-empty string`)
+				}
+				terms[term][normalized] = translation as string
+			}
+		}
+		if (errors.length > 0) throw new ConfigError(path, errors)
+		return new TermBase(terms)
+	}
+
+	public getTermsForLanguage(languageCode: string): ApprovedTerm[] {
+		return Object.entries(this.terms)
+			.filter(([, translations]) => languageCode in translations)
+			.map(([term, translations]) => ({
+				term,
+				translation: translations[languageCode]
+			}))
+	}
+
+	// approved terms that occur in at least one of the given source texts
+	public getApprovedTerms(
+		texts: string[],
+		languageCode: string
+	): ApprovedTerm[] {
+		return this.getTermsForLanguage(languageCode).filter(({ term }) =>
+			texts.some((text) => this.patterns.get(term)?.test(text))
+		)
+	}
+
+	public findViolations(
+		source: string,
+		translation: string,
+		languageCode: string
+	): TranslationIssue[] {
+		const normalizedTranslation = translation.toLocaleLowerCase(languageCode)
+		return this.getApprovedTerms([source], languageCode)
+			.filter(
+				(approved) =>
+					!normalizedTranslation.includes(
+						approved.translation.toLocaleLowerCase(languageCode)
+					)
+			)
+			.map((approved) => ({
+				type: 'term',
+				message: `Term "${approved.term}" must be translated as "${approved.translation}"`
+			}))
+	}
+}
@@ -1,9 +1,49 @@
 import axios from 'axios'
 import * as fs from 'node:fs'
-import { LANGUAGE_ENTRIES } from '@/constants/language.constants'
+import {
+	LANGUAGE_ALIASES,
+	LANGUAGE_ENTRIES
+} from '@/constants/language.constants'
+import {
+	findLocaleFiles,
+	getLocaleFolderFileName
+} from '@/utilities/layout.utils'
+import { normalizeLocaleCode } from '@/utilities/locale.utils'
+import {
+	DEFAULT_DOMAIN_CONTEXT,
+	DEFAULT_GLOSSARY,
+	DEFAULT_SOURCE_LANGUAGE
+} from '@/constants/prompt.constants'
 import { Logger } from '@/utilities/logger.utils'
-
-import { OpenRouter } from '@openrouter/sdk'
+import {
+	createTranslationFormat,
+	isSupportedTranslationFile
+} from '@/formats/format.factory'
+import {
+	flattenObject,
+	orderKeysLike,
+	TranslationFormat,
+	TranslationObject
+} from '@/utilities/format.utils'
+import { writeFileAtomic } from '@/utilities/common.utils'
+import { hashText, TranslationMemory } from '@/utilities/memory.utils'
+import { TranslationProvider } from '@/utilities/provider.utils'
+import { TermBase } from '@/utilities/termbase.utils'
+import { estimateTokens, TranslationEstimate } from '@/utilities/plan.utils'
+import { getPluralCategories } from '@/utilities/plural.utils'
+import { Scheduler } from '@/utilities/scheduler.utils'
+import { HttpAuth, isUrl, resolveHttpHeaders } from '@/utilities/http.utils'
+import { KeyMetadata } from '@/utilities/metadata.utils'
+import {
+	createUsageStats,
+	TranslationUsageStats
+} from '@/utilities/report.utils'
+import {
+	TranslationIssue,
+	validateLength,
+	validateTranslation,
+	ValidationReport
+} from '@/utilities/validation.utils'
 
 export class TranslationKeyValue {
 	constructor(
@@ -12,117 +52,235 @@ export class TranslationKeyValue {
 	) {}
 }
 
+export class TranslationDiff {
+	constructor(
+		public readonly added: TranslationKeyValue[] = [],
+		public readonly changed: TranslationKeyValue[] = [],
+		public readonly removed: TranslationKeyValue[] = []
+	) {}
+
+	// added and changed entries, i.e. everything that needs a translation
+	public get translatable(): TranslationKeyValue[] {
+		return [...this.added, ...this.changed]
+	}
+
+	public get size(): number {
+		return this.added.length + this.changed.length + this.removed.length
+	}
+
+	public filter(
+		predicate: (entry: TranslationKeyValue) => boolean
+	): TranslationDiff {
+		return new TranslationDiff(
+			this.added.filter(predicate),
+			this.changed.filter(predicate),
+			this.removed.filter(predicate)
+		)
+	}
+}
+
 export class TranslationFile {
 	constructor(
 		public readonly path: string,
-		public readonly name: string = ''
+		public readonly name: string = '',
+		// set when the file was found through a path template
+		public readonly locale?: string,
+		public readonly namespace?: string
 	) {}
 }
 
 export class TranslationUrl {
-	constructor(public readonly url: string) {}
+	constructor(
+		public readonly url: string,
+		public readonly headers: Record<string, string> = {}
+	) {}
+}
+
+/**
+ * Builds a URL source for `http(s)://` arguments, with the configured
+ * headers and auth, and a file source for anything else.
+ */
+export const createTranslationSource = (
+	pathOrUrl: string,
+	headers?: Record<string, string>,
+	auth?: HttpAuth
+): TranslationUrl | TranslationFile =>
+	isUrl(pathOrUrl)
+		? new TranslationUrl(pathOrUrl, resolveHttpHeaders(headers, auth))
+		: new TranslationFile(pathOrUrl)
+
+export interface LLMTranslationOptions {
+	keepWords?: string[]
+	validationReport?: ValidationReport
+	memory?: TranslationMemory
+	domainContext?: string
+	glossary?: Record<string, string>
+	termBase?: TermBase
+	// shared request scheduler, batches run one at a time without it
+	scheduler?: Scheduler
+	// descriptions and length limits of the source keys
+	metadata?: KeyMetadata
+	// name of the language the source strings are written in
+	sourceLanguage?: string
 }
 
 export class LLMTranslation {
-	private readonly LLM_SYSTEM_PROMPT = `You are a professional translator for a Trade-in POS (Point of Sale) SaaS application. Translate the following UI text strings from English to {:language}.
+	private readonly LLM_SYSTEM_PROMPT = `You are a professional translator for a software application. Translate the following UI text strings from {:sourceLanguage} to {:language}.
 
 Domain context:
-- This is a buyback/trade-in platform where customers sell used items (phones, electronics, etc.)
-- Offer types describe HOW items are traded in (in-store, by mail, etc.)
-- Use standard/formal register appropriate for business software
+{:domainContext}
 
 Translation rules:
 0. IMPORTANT: KEEP THESE EXACT WORDING UNTRANSLATED: {:keepWords}
-1. PRESERVE placeholders exactly as-is: {value}, {type}, {0}, {1}, etc. — do not translate content inside curly braces
-2. TRANSLATE all descriptive English terms including offer types, conditions, and UI labels
-3. Only keep in English: proper brand names (Apple, Samsung), integration brand names (BackMarket, ShareASale, Tremendous, DataFeed), model numbers (iPhone 15), and code identifiers
+1. PRESERVE placeholders exactly as-is: {value}, {type}, {0}, {1}, $NAME$, etc. — do not translate content inside curly braces
+2. TRANSLATE all descriptive {:sourceLanguage} terms including offer types, conditions, and UI labels
+3. Only keep in {:sourceLanguage}: proper brand names (Apple, Samsung), integration brand names, model numbers (iPhone 15), and code identifiers
 4. Output ONLY a valid JSON object — no markdown, no explanation, no extra text
-
-Domain glossary (MUST be translated, not kept in English):
-- "In-Store" → physical store location (e.g., Indonesian: "di toko")
-- "Mail-in" → send by postal mail (e.g., Indonesian: "kirim pos")  
-- "Bulk Quote" → wholesale/volume pricing (e.g., Indonesian: "penawaran grosir")
-- "Easy Offer" → simple/quick offer (e.g., Indonesian: "penawaran mudah")
-- "Trade-in" → exchange old item for value (translate to local equivalent)
-- "Offer" → proposal/bid (translate appropriately)
-- "Markup"/"Mark Up" → increase in price (e.g., Indonesian: "Naikan Harga")
-- "Mark Down"/"Mark Down" → decrease in price (e.g., Indonesian: "Turunkan Harga")
-
-Example of CORRECT vs INCORRECT translation (e.g. Indonesian):
-- WRONG: "In-Store Offer" → "Penawaran In-Store" (kept English term)
-- RIGHT: "In-Store Offer" → "Penawaran di Toko" (fully translated)
-
-Input format: JSON object where keys are numeric indices and values are strings to translate.
+5. Use the key path and the note of each string to pick the right meaning (e.g. "Open" as a verb or an adjective), never translate or output them
+6. NEVER exceed the maximum length given for a string
+{:glossary}{:terms}{:plurals}
+Input format: one string per line as [index] key.path: "text", optionally followed by a note and a maximum length in characters.
 Output format: JSON object with the same numeric keys and fully translated strings as values.
 Input:\n`
 	private readonly LLM_INPUT_PROMPT = `{:input}`
-	private llmClient: OpenRouter
+	private readonly LLM_CORRECTION_PROMPT = `Your previous translation of the strings below broke the translation rules. Translate them again and fix every listed problem:
+{:issues}
+
+Input:\n`
 	private logger: Logger = new Logger()
+	private unverifiedKeys: Set<string> = new Set()
+	private readonly scheduler: Scheduler
+	public readonly keepWords: string[]
+	public readonly stats: TranslationUsageStats = createUsageStats()
 
 	constructor(
 		public readonly language: {
 			code: string
 			name: string
 		},
-		public readonly keepWords: string[] = []
+		private readonly provider: TranslationProvider,
+		private readonly options: LLMTranslationOptions = {}
 	) {
-		this.llmClient = new OpenRouter({
-			apiKey: process.env.OPENROUTER_API_KEY
-		})
+		this.keepWords = options.keepWords ?? []
+		this.scheduler = options.scheduler ?? new Scheduler({ maxConcurrency: 1 })
 		return this
 	}
 
 	private async sendLLMRequest(
 		systemPrompt: string,
 		userPrompt: string,
-		keys: string[]
+		inputs: Record<string, string>
 	): Promise<Record<string, string>> {
-		const properties = Object.fromEntries(
-			keys.map((k) => [k, { type: 'string' }])
-		)
-		const response = await this.llmClient.chat.send({
-			chatGenerationParams: {
-				model: 'google/gemini-2.0-flash-001',
-				messages: [{ role: 'user', content: `${systemPrompt}\n${userPrompt}` }],
-				stream: false,
-				responseFormat: {
-					type: 'json_schema',
-					jsonSchema: {
-						name: 'translations',
-						strict: true,
-						schema: {
-							type: 'object',
-							properties,
-							required: keys,
-							additionalProperties: false
-						}
-					}
-				}
+		const startedAt = Date.now()
+		const response = await this.scheduler.run(
+			() => {
+				this.stats.requests++
+				return this.provider.translate({
+					systemPrompt,
+					userPrompt,
+					inputs,
+					language: this.language
+				})
+			},
+			{
+				tokens:
+					estimateTokens(systemPrompt + userPrompt) +
+					estimateTokens(JSON.stringify(inputs)),
+				onRetry: () => this.stats.retries++
 			}
+		)
+		this.stats.promptTokens += response.usage?.promptTokens ?? 0
+		this.stats.completionTokens += response.usage?.completionTokens ?? 0
+		this.logger.trace('request', {
+			language: this.language.code,
+			model: this.provider.model,
+			systemPrompt,
+			userPrompt,
+			response: response.translations,
+			usage: response.usage,
+			elapsedMs: Date.now() - startedAt
 		})
-
-		const content = response.choices[0]?.message?.content
-		if (typeof content !== 'string') {
-			throw new Error('Unexpected response format from LLM')
-		}
-		return JSON.parse(content)
+		return response.translations
 	}
 
 	private generateTranslationFormattedInput(
 		translations: TranslationKeyValue[]
 	): string {
 		return translations
-			.map((translation, index) => `[${index}] "${translation.value}"`)
+			.map((translation, index) => {
+				const metadata = this.options.metadata?.get(translation.key)
+				const hints = [
+					metadata?.description && `note: ${metadata.description}`,
+					metadata?.maxLength && `max ${metadata.maxLength} characters`
+				].filter(Boolean)
+				const key = translation.key.replace(/(_ordinal)?_<plural>$/, '')
+				return `[${index}] ${key}: "${translation.value}"${hints.length > 0 ? ` (${hints.join('; ')})` : ''}`
+			})
 			.join('\n')
 	}
 
-	private generateSystemPrompt(languageName: string): string {
-		const isXhosa = languageName.toLowerCase() === 'xhosa'
+	private generateGlossary(): string {
+		const glossary = Object.entries(this.options.glossary ?? DEFAULT_GLOSSARY)
+		if (glossary.length === 0) return ''
+		return `
+Domain glossary (MUST be translated, not kept in {:sourceLanguage}):
+${glossary.map(([term, meaning]) => `- "${term}" → ${meaning}`).join('\n')}
+`
+	}
+
+	private generateApprovedTerms(translations: TranslationKeyValue[]): string {
+		const approvedTerms =
+			this.options.termBase?.getApprovedTerms(
+				translations.map((t) => t.value),
+				this.language.code
+			) ?? []
+		if (approvedTerms.length === 0) return ''
+		return `
+Approved terminology (MUST use exactly these translations):
+${approvedTerms.map(({ term, translation }) => `- "${term}" → "${translation}"`).join('\n')}
+`
+	}
+
+	private generatePluralRules(translations: TranslationKeyValue[]): string {
+		const hasPlural = translations.some((t) =>
+			/\{\s*[^\s,{}]+\s*,\s*(plural|selectordinal|select)\s*,/.test(t.value)
+		)
+		if (!hasPlural) return ''
+		const cardinal = getPluralCategories(this.language.code)
+		const ordinal = getPluralCategories(this.language.code, 'ordinal')
+		return `
+ICU plural and select messages ({count, plural, ...}, {n, selectordinal, ...}, {gender, select, ...}):
+- Keep the ICU structure, argument names, "#" and exact matches like =0 unchanged, translate only the text inside the options
+- plural MUST use exactly these categories for {:language}: ${cardinal.join(', ')}
+- selectordinal MUST use exactly these categories for {:language}: ${ordinal.join(', ')}
+- select MUST keep exactly the options of the source
+`
+	}
+
+	private generateSystemPrompt(
+		languageName: string,
+		translations: TranslationKeyValue[] = []
+	): string {
 		const formattedPrompt = this.LLM_SYSTEM_PROMPT.replace(
-			'{:language}',
-			isXhosa ? 'English' : languageName
-		).replace('{:keepWords}', this.keepWords.map((w) => `"${w}"`).join(', '))
-		console.log(formattedPrompt)
+			'{:keepWords}',
+			this.keepWords.map((w) => `"${w}"`).join(', ')
+		)
+			.replace(
+				'{:domainContext}',
+				this.options.domainContext ?? DEFAULT_DOMAIN_CONTEXT
+			)
+			.replace('{:glossary}', this.generateGlossary())
+			.replace('{:terms}', this.generateApprovedTerms(translations))
+			.replace('{:plurals}', this.generatePluralRules(translations))
+			.replaceAll('{:language}', languageName)
+			.replaceAll(
+				'{:sourceLanguage}',
+				this.options.sourceLanguage ?? DEFAULT_SOURCE_LANGUAGE
+			)
+		this.logger.log(
+			'DEBUG',
+			`System prompt for ${languageName}: ${formattedPrompt.length} characters`
+		)
 		return formattedPrompt
 	}
 
@@ -130,16 +288,31 @@ Input:\n`
 		return this.LLM_INPUT_PROMPT.replace('{:input}', input)
 	}
 
+	private generateCorrectionPrompt(issues: TranslationIssue[][]): string {
+		return this.LLM_CORRECTION_PROMPT.replace(
+			'{:issues}',
+			issues
+				.map(
+					(entryIssues, index) =>
+						`[${index}] ${entryIssues.map((i) => i.message).join('; ')}`
+				)
+				.join('\n')
+		)
+	}
+
 	private async processTranslations(
 		translations: TranslationKeyValue[]
 	): Promise<TranslationKeyValue[] | undefined> {
 		const formattedInput = this.generateTranslationFormattedInput(translations)
-		const systemPrompt = this.generateSystemPrompt(this.language.name)
+		const systemPrompt = this.generateSystemPrompt(
+			this.language.name,
+			translations
+		)
 		const userPrompt = this.generateUserPrompt(formattedInput)
 		const result = await this.sendLLMRequest(
 			systemPrompt,
 			userPrompt,
-			Object.keys(translations).map(String)
+			Object.fromEntries(translations.map((t, i) => [String(i), t.value]))
 		)
 		if (!result) {
 			this.logger.log(
@@ -148,31 +321,238 @@ Input:\n`
 			)
 			return undefined
 		}
-		return translations.map(
+		const translated = translations.map(
 			(t, i) => new TranslationKeyValue(t.key, result[String(i)] ?? t.value)
 		)
+		return this.validateTranslations(translations, translated, systemPrompt)
+	}
+
+	private validate(
+		key: string,
+		source: string,
+		translation: string
+	): TranslationIssue[] {
+		const maxLength = this.options.metadata?.get(key)?.maxLength
+		// a grouped plural holds every form, the limit applies to each of them
+		const isPluralGroup = key.endsWith('<plural>')
+		return [
+			...validateTranslation(source, translation, this.language.code),
+			...(maxLength && !isPluralGroup
+				? validateLength(translation, maxLength)
+				: []),
+			...(this.options.termBase?.findViolations(
+				source,
+				translation,
+				this.language.code
+			) ?? [])
+		]
+	}
+
+	/**
+	 * Checks every translation against its source, asks the provider once more
+	 * for the failing entries with a corrective prompt and falls back to the
+	 * source value when they still fail.
+	 */
+	private async validateTranslations(
+		sources: TranslationKeyValue[],
+		translated: TranslationKeyValue[],
+		systemPrompt: string
+	): Promise<TranslationKeyValue[]> {
+		const failing = sources
+			.map((source, index) => ({
+				index,
+				issues: this.validate(source.key, source.value, translated[index].value)
+			}))
+			.filter((entry) => entry.issues.length > 0)
+		if (failing.length === 0) return translated
+
+		this.logger.log(
+			'WARN',
+			`${failing.length} translations for ${this.language.name} failed validation, retrying with a corrective prompt`
+		)
+		const retrySources = failing.map((entry) => sources[entry.index])
+		const userPrompt =
+			this.generateCorrectionPrompt(failing.map((entry) => entry.issues)) +
+			this.generateUserPrompt(
+				this.generateTranslationFormattedInput(retrySources)
+			)
+		let corrected: Record<string, string> = {}
+		this.stats.retries++
+		try {
+			corrected = await this.sendLLMRequest(
+				systemPrompt,
+				userPrompt,
+				Object.fromEntries(retrySources.map((t, i) => [String(i), t.value]))
+			)
+		} catch (error) {
+			this.logger.log(
+				'ERROR',
+				`Corrective request failed for ${this.language.name}: ${error}`
+			)
+		}
+
+		const result = [...translated]
+		failing.forEach((entry, retryIndex) => {
+			const source = sources[entry.index]
+			const retried = corrected[String(retryIndex)]
+			const retryIssues =
+				retried === undefined
+					? entry.issues
+					: this.validate(source.key, source.value, retried)
+			// term violations alone are reported but keep the translation
+			const fallback = retryIssues.some((issue) => issue.type !== 'term')
+			this.options.validationReport?.add({
+				language: this.language.code,
+				key: source.key,
+				source: source.value,
+				translation: translated[entry.index].value,
+				issues: entry.issues,
+				retried: true,
+				fallback
+			})
+			if (retryIssues.length > 0) this.unverifiedKeys.add(source.key)
+			if (fallback) {
+				this.logger.log(
+					'WARN',
+					`Falling back to source value for ${source.key} in ${this.language.name}: ${retryIssues.map((i) => i.message).join('; ')}`
+				)
+			}
+			result[entry.index] = new TranslationKeyValue(
+				source.key,
+				fallback ? source.value : (retried ?? translated[entry.index].value)
+			)
+		})
+		return result
+	}
+
+	// approved terms change the output, so they take part in the memory key
+	private generatePromptHash(systemPrompt: string): string {
+		return hashText(
+			systemPrompt +
+				JSON.stringify(
+					this.options.termBase?.getTermsForLanguage(this.language.code) ?? []
+				)
+		)
+	}
+
+	// a description or length limit changes the output of that key only
+	private getMemoryHash(promptHash: string, key: string): string {
+		const metadata = this.options.metadata?.get(key)
+		return metadata
+			? hashText(promptHash + JSON.stringify(metadata))
+			: promptHash
+	}
+
+	private createBatches(
+		translations: TranslationKeyValue[],
+		batchSize: number
+	): TranslationKeyValue[][] {
+		return Array.from({
+			length: Math.ceil(translations.length / batchSize)
+		}).map((_, i) => translations.slice(i * batchSize, (i + 1) * batchSize))
+	}
+
+	/**
+	 * Dry-run counterpart of `translate`: batches the same way and consults the
+	 * translation memory, but only estimates the requests and tokens needed.
+	 */
+	public estimate(
+		translations: TranslationKeyValue[],
+		options: { batchSize: number } = { batchSize: 50 }
+	): TranslationEstimate {
+		const { memory } = this.options
+		const systemPrompt = this.generateSystemPrompt(this.language.name)
+		const promptHash = this.generatePromptHash(systemPrompt)
+		const pending = translations.filter(
+			(translation) =>
+				!memory?.has(
+					translation.value,
+					this.language.code,
+					this.provider.model,
+					this.getMemoryHash(promptHash, translation.key)
+				)
+		)
+		const batches = this.createBatches(pending, options.batchSize)
+		return {
+			requests: batches.length,
+			cached: translations.length - pending.length,
+			promptTokens: batches.reduce(
+				(sum, batch) =>
+					sum +
+					estimateTokens(
+						systemPrompt +
+							this.generateUserPrompt(
+								this.generateTranslationFormattedInput(batch)
+							)
+					),
+				0
+			),
+			// the response mirrors the input as a JSON object of the same keys
+			completionTokens: batches.reduce(
+				(sum, batch) =>
+					sum +
+					estimateTokens(
+						JSON.stringify(
+							Object.fromEntries(batch.map((t, i) => [String(i), t.value]))
+						)
+					),
+				0
+			)
+		}
 	}
 
 	public async translate(
 		translations: TranslationKeyValue[],
 		options: { batchSize: number } = { batchSize: 50 }
 	): Promise<TranslationKeyValue[] | undefined> {
-		const batches = Array.from({
-			length: Math.ceil(translations.length / options.batchSize)
-		}).map((_, i) =>
-			translations.slice(i * options.batchSize, (i + 1) * options.batchSize)
+		const { memory } = this.options
+		const promptHash = this.generatePromptHash(
+			this.generateSystemPrompt(this.language.name)
 		)
-		const result: TranslationKeyValue[] = []
-		let progressPercentage = 0
-		for (const batch of batches) {
-			const batchResult = await this.processTranslations(batch)
-			if (batchResult) result.push(...batchResult)
-			progressPercentage = Math.round(
-				((batches.indexOf(batch) + 1) / batches.length) * 100
+		const remembered: TranslationKeyValue[] = []
+		const pending = translations.filter((translation) => {
+			const cached = memory?.get(
+				translation.value,
+				this.language.code,
+				this.provider.model,
+				this.getMemoryHash(promptHash, translation.key)
+			)
+			if (cached === undefined) return true
+			remembered.push(new TranslationKeyValue(translation.key, cached))
+			return false
+		})
+		if (remembered.length > 0) {
+			this.logger.log(
+				'INFO',
+				`Reusing ${remembered.length} translations for ${this.language.name} from translation memory`
 			)
-			this.logger.log('INFO', `Translation progress: ${progressPercentage}%`)
 		}
-		return result
+
+		const batches = this.createBatches(pending, options.batchSize)
+		let completed = 0
+		// batches are queued together, the scheduler decides how many run
+		const batchResults = await Promise.all(
+			batches.map(async (batch) => {
+				const batchResult = await this.processTranslations(batch)
+				batchResult?.forEach((translated, i) => {
+					if (this.unverifiedKeys.has(translated.key)) return
+					memory?.set(
+						batch[i].value,
+						this.language.code,
+						this.provider.model,
+						this.getMemoryHash(promptHash, batch[i].key),
+						translated.value
+					)
+				})
+				completed++
+				this.logger.log(
+					'INFO',
+					`Translation progress for ${this.language.name}: ${Math.round((completed / batches.length) * 100)}%`
+				)
+				return batchResult ?? []
+			})
+		)
+		return [...remembered, ...batchResults.flat()]
 	}
 }
 
@@ -187,11 +567,45 @@ export class Language {
 		return Array.from(this.entries.values())
 	}
 
+	/**
+	 * Looks a code up after normalizing it (`pt_br` is `pt-BR`), through the
+	 * aliases of deprecated codes (`iw` is Hebrew). The code is returned as
+	 * normalized, not replaced by its alias, so it still names the file.
+	 */
 	public static getLanguageByCode(
 		code: string
 	): { code: string; name: string } | undefined {
-		const name = this.entries.get(code)
-		return name ? { code, name } : undefined
+		const normalized = normalizeLocaleCode(code)
+		const name = this.getName(normalized)
+		return name
+			? { code: normalized, name }
+			: this.getLanguageVariant(normalized)
+	}
+
+	private static getName(code: string): string | undefined {
+		return (
+			this.entries.get(code) ??
+			this.entries.get(LANGUAGE_ALIASES.get(code) ?? '')
+		)
+	}
+
+	/**
+	 * BCP-47 tags missing from the entries (`pt-BR`, `zh-Hant`, `de-AT`)
+	 * resolve when their base language is known, keeping the variant code.
+	 */
+	private static getLanguageVariant(
+		code: string
+	): { code: string; name: string } | undefined {
+		const baseName = this.getName(code.split('-')[0])
+		if (!baseName || !code.includes('-')) return undefined
+		let name: string | undefined
+		try {
+			name = new Intl.DisplayNames(['en'], { type: 'language' }).of(code)
+		} catch {
+			// not a valid BCP-47 tag, e.g. the `app-en` part of `app_en.arb`
+			return undefined
+		}
+		return { code, name: name ?? `${baseName} (${code})` }
 	}
 
 	public static getLanguageByName(
@@ -205,27 +619,81 @@ export class Language {
 }
 
 export class TranslationJson {
-	public json: Record<string, string | object> = {}
+	public json: TranslationObject = {}
+	public readonly format: TranslationFormat
+	// source-language text of keys set in this run, see TranslationFormat
+	private sourceValues: Map<string, string> = new Map()
+	// set by `useStructureOf`, guessed from the values otherwise
+	private nested?: boolean
+	private logger: Logger = new Logger()
+
+	constructor(public readonly source: TranslationUrl | TranslationFile) {
+		this.format = createTranslationFormat(
+			source instanceof TranslationFile ? source.path : source.url
+		)
+	}
 
-	constructor(public readonly source: TranslationUrl | TranslationFile) {}
+	/**
+	 * Translation held in memory, `path` picks its format and names the
+	 * locale files generated from it.
+	 */
+	public static fromObject(
+		json: TranslationObject,
+		path: string
+	): TranslationJson {
+		const translation = new TranslationJson(new TranslationFile(path))
+		translation.json = structuredClone(json)
+		return translation
+	}
+
+	/** Parses `content` as the file at `path`, e.g. an older version of it. */
+	public static fromContent(content: string, path: string): TranslationJson {
+		const translation = new TranslationJson(new TranslationFile(path))
+		translation.json = translation.format.parse(content)
+		return translation
+	}
 
 	public async parse(): Promise<TranslationJson> {
 		if (this.source instanceof TranslationFile) {
-			this.json = JSON.parse(fs.readFileSync(this.source.path, 'utf-8'))
+			this.json = this.format.parse(fs.readFileSync(this.source.path, 'utf-8'))
 			return this
 		} else {
 			const response = await axios.get(this.source.url, {
-				responseType: 'json'
+				headers: this.source.headers,
+				responseType: 'text',
+				transformResponse: (data) => data
 			})
-			this.json = response.data
+			this.json = this.format.parse(response.data)
 			return this
 		}
 	}
 
 	private isFlat(): boolean {
+		if (this.format.flatKeys) return true
+		if (this.nested !== undefined) return !this.nested
 		return Object.values(this.json).every((v) => typeof v === 'string')
 	}
 
+	/**
+	 * An empty file cannot tell whether its keys are nested, a file created
+	 * from `source` nests them like it does.
+	 */
+	public useStructureOf(source: TranslationJson): TranslationJson {
+		this.nested = !source.isFlat()
+		return this
+	}
+
+	// a new locale file is laid out like `source`, see TranslationFormat
+	public useLayoutOf(source: TranslationJson): TranslationJson {
+		this.format.useLayoutOf?.(source.format)
+		return this
+	}
+
+	public setSourceValue(key: string, value: string): TranslationJson {
+		this.sourceValues.set(key, value)
+		return this
+	}
+
 	public setValue(key: string, value: string): TranslationJson {
 		if (this.isFlat()) {
 			this.json[key] = value
@@ -286,12 +754,63 @@ export class TranslationJson {
 		)
 	}
 
+	/**
+	 * Reorders keys to follow `reference`, usually the source file. Only
+	 * affects formats serialized from the object (JSON, YAML), the others are
+	 * edited in place.
+	 */
+	public sortKeys(reference: TranslationObject): TranslationJson {
+		// flat files follow the flattened keys of a nested reference
+		this.json = orderKeysLike(
+			this.json,
+			this.isFlat() ? Object.fromEntries(flattenObject(reference)) : reference
+		)
+		return this
+	}
+
+	/**
+	 * Copies the untranslated data of `key` kept by the format, such as ARB
+	 * and Chrome placeholders, from `source` unless this file has its own.
+	 */
+	public copyMetadataFrom(
+		source: TranslationJson,
+		key: string
+	): TranslationJson {
+		if (!this.format.setMetadata || this.format.getMetadata?.(key)) return this
+		const metadata = source.format.getMetadata?.(key)
+		if (metadata) this.format.setMetadata(key, metadata)
+		return this
+	}
+
+	// formats naming their locale inside the file, e.g. ARB `@@locale`
+	public setLocale(code: string): TranslationJson {
+		this.format.setLocale?.(code)
+		return this
+	}
+
+	public serialize(): string {
+		return this.format.serialize(this.json, this.sourceValues)
+	}
+
+	// keys set during the run, see `setSourceValue`
+	public getChangedKeys(): string[] {
+		return Array.from(this.sourceValues.keys())
+	}
+
 	public write(): TranslationJson {
 		if (this.source instanceof TranslationFile) {
-			fs.writeFileSync(this.source.path, JSON.stringify(this.json, null, 2))
+			const content = this.serialize()
+			const isUnchanged =
+				fs.existsSync(this.source.path) &&
+				fs.readFileSync(this.source.path, 'utf-8') === content
+			// untouched files keep their modification time
+			if (!isUnchanged) writeFileAtomic(this.source.path, content)
 			return this
 		}
-		console.warn(`Write not supported for URL source`)
+		this.logger.log(
+			'WARN',
+			`Write not supported for URL source ${this.source.url}, configure a sink to publish translations`
+		)
 		return this
 	}
 
@@ -322,34 +841,97 @@ export class TranslationJson {
 		return result
 	}
 
-	public diff(other: TranslationJson) {
+	public removeValue(key: string): TranslationJson {
+		if (this.isFlat()) {
+			delete this.json[key]
+		} else {
+			this.removeJsonValue(this.json, key.split('.'))
+		}
+		return this
+	}
+
+	private removeJsonValue(
+		obj: Record<string, string | object>,
+		keys: string[]
+	): void {
+		if (keys.length === 0) return
+		const [firstKey, ...restKeys] = keys
+		if (!(firstKey in obj)) return
+		if (restKeys.length === 0) {
+			delete obj[firstKey]
+			return
+		}
+		const child = obj[firstKey]
+		if (typeof child !== 'object') return
+		this.removeJsonValue(child as Record<string, string | object>, restKeys)
+		// prune parents left empty by the removal
+		if (Object.keys(child).length === 0) delete obj[firstKey]
+	}
+
+	/**
+	 * Compares this translation (the patched one) against `other` (the base
+	 * one): keys only in this are added, keys only in `other` are removed.
+	 */
+	public diff(other: TranslationJson): TranslationDiff {
 		const selfMap = this.flatten()
 		const otherMap = other.flatten()
-		const diff: TranslationKeyValue[] = []
+		const diff = new TranslationDiff()
 		for (const [selfKey, selfValue] of selfMap.entries()) {
 			const otherValue = otherMap.get(selfKey)
-			if (otherValue === undefined || otherValue !== selfValue) {
-				diff.push(new TranslationKeyValue(selfKey, selfValue))
+			if (otherValue === undefined) {
+				diff.added.push(new TranslationKeyValue(selfKey, selfValue))
+			} else if (otherValue !== selfValue) {
+				diff.changed.push(new TranslationKeyValue(selfKey, selfValue))
 			}
 		}
-		// check for keys in other that are not in self
 		for (const [otherKey, otherValue] of otherMap.entries()) {
 			if (!selfMap.has(otherKey)) {
-				diff.push(new TranslationKeyValue(otherKey, otherValue))
+				diff.removed.push(new TranslationKeyValue(otherKey, otherValue))
 			}
 		}
 		return diff
 	}
 }
 
+/**
+ * Locale files of a folder: matching the path template when there is one,
+ * and then only those of `namespace` when given.
+ */
 export const getTranslationFilesFromPath = (
-	path: string
+	path: string,
+	pathTemplate?: string,
+	namespace?: string
 ): TranslationFile[] => {
-	return fs
-		.readdirSync(path)
-		.filter((file) => file.endsWith('.json'))
-		.map((file) => {
-			const filePath = path + '/' + file
-			return new TranslationFile(filePath, file)
-		})
+	if (pathTemplate) {
+		return findLocaleFiles(path, pathTemplate)
+			.filter(
+				(match) =>
+					isSupportedTranslationFile(match.path) &&
+					(namespace === undefined || match.namespace === namespace)
+			)
+			.map(
+				(match) =>
+					new TranslationFile(
+						`${path}/${match.path}`,
+						match.path,
+						match.locale,
+						match.namespace
+					)
+			)
+	}
+	const entries = fs
+		.readdirSync(path, { withFileTypes: true })
+		.filter((entry) => !entry.name.startsWith('.'))
+	const files = entries
+		.filter((entry) => entry.isFile() && isSupportedTranslationFile(entry.name))
+		.map((entry) => entry.name)
+	// Chrome extensions, Android and Apple apps keep each locale in a folder
+	const localeFolderFiles = entries
+		.filter((entry) => entry.isDirectory())
+		.map((entry) => `${entry.name}/${getLocaleFolderFileName(entry.name)}`)
+		.filter((file) => fs.existsSync(`${path}/${file}`))
+	return [...files, ...localeFolderFiles].map((file) => {
+		const filePath = path + '/' + file
+		return new TranslationFile(filePath, file)
+	})
 }
@@ -0,0 +1,395 @@
+import * as fs from 'node:fs'
+import { getPluralCategories } from '@/utilities/plural.utils'
+
+export type TranslationIssueType =
+	| 'placeholder'
+	| 'icu'
+	| 'tag'
+	| 'whitespace'
+	| 'empty'
+	| 'term'
+	| 'length'
+
+export interface TranslationIssue {
+	type: TranslationIssueType
+	message: string
+}
+
+export interface IcuArgument {
+	name: string
+	type: string
+	// selectors of plural, select and selectordinal arguments
+	options?: string[]
+}
+
+export interface ValidationFailure {
+	language: string
+	key: string
+	source: string
+	translation: string
+	issues: TranslationIssue[]
+	retried: boolean
+	fallback: boolean
+}
+
+export const PLACEHOLDER_PATTERNS = [
+	// {{name}} (i18next, handlebars)
+	/\{\{\s*[^{}]+?\s*\}\}/g,
+	// %s, %d, %1$s, %@ (printf, Android, iOS)
+	/%(\d+\$)?[-+ 0#]*\d*(\.\d+)?[sdifuxXeEgGcp@]/g,
+	// $NAME$ (Chrome extension messages)
+	/\$[A-Za-z0-9_@]+\$/g
+]
+
+export const TAG_PATTERN = /<\/?([a-zA-Z][\w:-]*)(\s[^<>]*?)?\s*(\/?)>/g
+
+const ICU_COMPLEX_TYPES = ['plural', 'select', 'selectordinal']
+
+const toSortedList = (values: string[]) => [...values].sort()
+
+const isSameList = (a: string[], b: string[]) =>
+	a.length === b.length && a.every((value, i) => value === b[i])
+
+const describeDifference = (source: string[], translation: string[]) => {
+	const missing = source.filter((v) => !translation.includes(v))
+	const unexpected = translation.filter((v) => !source.includes(v))
+	return [
+		missing.length > 0 ? `missing ${missing.join(', ')}` : '',
+		unexpected.length > 0 ? `unexpected ${unexpected.join(', ')}` : '',
+		missing.length === 0 && unexpected.length === 0
+			? `expected ${source.length} occurrences, got ${translation.length}`
+			: ''
+	]
+		.filter(Boolean)
+		.join('; ')
+}
+
+/**
+ * Minimal ICU MessageFormat scanner. Returns every argument (`{name}`,
+ * `{count, plural, ...}`) at any nesting depth, or throws when braces are
+ * unbalanced.
+ */
+export const parseIcuArguments = (text: string): IcuArgument[] => {
+	const result: IcuArgument[] = []
+	let position = 0
+
+	const readUntil = (stops: string[]) => {
+		const start = position
+		while (position < text.length && !stops.includes(text[position])) {
+			position++
+		}
+		return text.slice(start, position).trim()
+	}
+
+	const parseMessage = (nested: boolean) => {
+		while (position < text.length) {
+			const char = text[position]
+			if (char === "'" && text[position + 1] === "'") {
+				position += 2
+			} else if (char === "'" && '{}'.includes(text[position + 1] ?? '')) {
+				// quoted literal braces, skip until closing apostrophe
+				const end = text.indexOf("'", position + 1)
+				position = end === -1 ? text.length : end + 1
+			} else if (char === '{') {
+				position++
+				parseArgument()
+			} else if (char === '}') {
+				if (!nested) throw new Error(`Unexpected "}" at ${position}`)
+				return
+			} else {
+				position++
+			}
+		}
+		if (nested) throw new Error('Unterminated ICU message')
+	}
+
+	const parseArgument = () => {
+		const name = readUntil([',', '}'])
+		if (text[position] === '}') {
+			position++
+			result.push({ name, type: 'argument' })
+			return
+		}
+		position++
+		const type = readUntil([',', '}'])
+		if (text[position] === '}') {
+			position++
+			result.push({ name, type })
+			return
+		}
+		position++
+		const argument: IcuArgument = { name, type }
+		result.push(argument)
+		if (!ICU_COMPLEX_TYPES.includes(type)) {
+			// number/date styles, skip to the matching brace
+			readUntil(['}'])
+			if (text[position] !== '}') throw new Error('Unterminated ICU argument')
+			position++
+			return
+		}
+		argument.options = []
+		while (position < text.length) {
+			const selector = readUntil(['{', '}']).replace(/^offset:\s*\d+\s*/, '')
+			if (text[position] === '}') {
+				if (selector.length > 0) {
+					throw new Error(`Selector "${selector}" has no message`)
+				}
+				position++
+				return
+			}
+			argument.options.push(selector)
+			position++
+			parseMessage(true)
+			position++
+		}
+		throw new Error('Unterminated ICU argument')
+	}
+
+	parseMessage(false)
+	return result
+}
+
+export const extractPlaceholders = (text: string): string[] =>
+	toSortedList(
+		PLACEHOLDER_PATTERNS.flatMap((pattern) =>
+			Array.from(text.matchAll(pattern), (match) => match[0])
+		)
+	)
+
+export const extractTags = (text: string): string[] =>
+	toSortedList(
+		Array.from(text.matchAll(TAG_PATTERN), (match) => {
+			const isClosing = match[0].startsWith('</')
+			const isSelfClosing = match[3] === '/'
+			const name = match[1].toLowerCase()
+			return isClosing
+				? `</${name}>`
+				: isSelfClosing
+					? `<${name}/>`
+					: `<${name}>`
+		})
+	)
+
+const getWhitespace = (text: string) => ({
+	leading: text.match(/^\s*/)?.[0] ?? '',
+	trailing: text.match(/\s*$/)?.[0] ?? ''
+})
+
+const getIcuArguments = (text: string): IcuArgument[] | Error => {
+	// strip {{double}} placeholders so they are not read as nested ICU args
+	const withoutDoubleBraces = text.replace(/\{\{[^{}]*\}\}/g, '')
+	try {
+		return parseIcuArguments(withoutDoubleBraces)
+	} catch (error) {
+		return error as Error
+	}
+}
+
+const describeIcuArguments = (icuArguments: IcuArgument[]): string[] =>
+	toSortedList(
+		icuArguments.map((argument) =>
+			argument.type === 'argument'
+				? `{${argument.name}}`
+				: `{${argument.name}, ${argument.type}}`
+		)
+	)
+
+const isPluralArgument = (argument: IcuArgument) =>
+	argument.type === 'plural' || argument.type === 'selectordinal'
+
+// selectors of every argument with the given name and type, nested ones included
+const collectOptions = (icuArguments: IcuArgument[], argument: IcuArgument) =>
+	toSortedList(
+		Array.from(
+			new Set(
+				icuArguments
+					.filter((a) => a.name === argument.name && a.type === argument.type)
+					.flatMap((a) => a.options ?? [])
+			)
+		)
+	)
+
+/**
+ * Select options must match the source exactly, plural categories must be the
+ * CLDR categories of the target language (exact `=n` matches are free).
+ */
+const validateIcuOptions = (
+	sourceArguments: IcuArgument[],
+	translationArguments: IcuArgument[],
+	language?: string
+): TranslationIssue[] => {
+	const issues: TranslationIssue[] = []
+	const checked = new Set<string>()
+	for (const argument of translationArguments) {
+		const id = `{${argument.name}, ${argument.type}}`
+		if (!argument.options || checked.has(id)) continue
+		checked.add(id)
+		const options = collectOptions(translationArguments, argument)
+		if (argument.type === 'select') {
+			const sourceOptions = collectOptions(sourceArguments, argument)
+			if (!isSameList(sourceOptions, options)) {
+				issues.push({
+					type: 'icu',
+					message: `Select options of ${id} differ: ${describeDifference(sourceOptions, options)}`
+				})
+			}
+			continue
+		}
+		if (!isPluralArgument(argument)) continue
+		const categories = options.filter((option) => !option.startsWith('='))
+		const expected = language
+			? getPluralCategories(
+					language,
+					argument.type === 'selectordinal' ? 'ordinal' : 'cardinal'
+				)
+			: ['other']
+		const missing = expected.filter((c) => !categories.includes(c))
+		const unexpected = language
+			? categories.filter((c) => !expected.includes(c))
+			: []
+		if (missing.length > 0 || unexpected.length > 0) {
+			issues.push({
+				type: 'icu',
+				message: `Plural categories of ${id} must be ${expected.join(', ')}: ${describeDifference(expected, categories)}`
+			})
+		}
+	}
+	return issues
+}
+
+// flags a translation longer than the max length of its key, in code points
+export const validateLength = (
+	translation: string,
+	maxLength: number
+): TranslationIssue[] =>
+	Array.from(translation).length > maxLength
+		? [
+				{
+					type: 'length',
+					message: `Translation is ${Array.from(translation).length} characters long, at most ${maxLength} are allowed`
+				}
+			]
+		: []
+
+/**
+ * Compares a source string with its translation and returns every integrity
+ * problem found: placeholder set, ICU arguments, HTML/XML tags and
+ * leading/trailing whitespace. With a target `language` the plural
+ * categories of ICU messages are checked against that language.
+ */
+export const validateTranslation = (
+	source: string,
+	translation: string,
+	language?: string
+): TranslationIssue[] => {
+	const issues: TranslationIssue[] = []
+
+	if (source.trim().length > 0 && translation.trim().length === 0) {
+		issues.push({ type: 'empty', message: 'Translation is empty' })
+		return issues
+	}
+
+	const sourceArguments = getIcuArguments(source)
+	const translationArguments = getIcuArguments(translation)
+	// plural forms repeat placeholders and tags once per category, and the
+	// number of categories depends on the language
+	const isPlural =
+		!(sourceArguments instanceof Error) &&
+		sourceArguments.some(isPluralArgument)
+	const normalize = (values: string[]) =>
+		isPlural ? Array.from(new Set(values)) : values
+
+	const sourcePlaceholders = normalize(extractPlaceholders(source))
+	const translationPlaceholders = normalize(extractPlaceholders(translation))
+	if (!isSameList(sourcePlaceholders, translationPlaceholders)) {
+		issues.push({
+			type: 'placeholder',
+			message: `Placeholders differ: ${describeDifference(sourcePlaceholders, translationPlaceholders)}`
+		})
+	}
+
+	if (
+		!(sourceArguments instanceof Error) &&
+		translationArguments instanceof Error
+	) {
+		issues.push({
+			type: 'icu',
+			message: `Malformed ICU message: ${translationArguments.message}`
+		})
+	} else if (
+		!(sourceArguments instanceof Error) &&
+		!(translationArguments instanceof Error)
+	) {
+		const sourceDescriptions = normalize(describeIcuArguments(sourceArguments))
+		const translationDescriptions = normalize(
+			describeIcuArguments(translationArguments)
+		)
+		if (!isSameList(sourceDescriptions, translationDescriptions)) {
+			issues.push({
+				type: 'icu',
+				message: `ICU arguments differ: ${describeDifference(sourceDescriptions, translationDescriptions)}`
+			})
+		}
+		issues.push(
+			...validateIcuOptions(sourceArguments, translationArguments, language)
+		)
+	}
+
+	const sourceTags = normalize(extractTags(source))
+	const translationTags = normalize(extractTags(translation))
+	if (!isSameList(sourceTags, translationTags)) {
+		issues.push({
+			type: 'tag',
+			message: `HTML/XML tags differ: ${describeDifference(sourceTags, translationTags)}`
+		})
+	}
+
+	const sourceWhitespace = getWhitespace(source)
+	const translationWhitespace = getWhitespace(translation)
+	if (
+		sourceWhitespace.leading !== translationWhitespace.leading ||
+		sourceWhitespace.trailing !== translationWhitespace.trailing
+	) {
+		issues.push({
+			type: 'whitespace',
+			message: `Leading/trailing whitespace differs: expected ${JSON.stringify(sourceWhitespace)}, got ${JSON.stringify(translationWhitespace)}`
+		})
+	}
+
+	return issues
+}
+
+export class ValidationReport {
+	public readonly failures: ValidationFailure[] = []
+
+	public add(failure: ValidationFailure): ValidationReport {
+		this.failures.push(failure)
+		return this
+	}
+
+	public merge(report: ValidationReport): ValidationReport {
+		this.failures.push(...report.failures)
+		return this
+	}
+
+	public get fallbackCount(): number {
+		return this.failures.filter((f) => f.fallback).length
+	}
+
+	public write(path: string): ValidationReport {
+		fs.writeFileSync(
+			path,
+			JSON.stringify(
+				{
+					generatedAt: new Date().toISOString(),
+					total: this.failures.length,
+					fallbacks: this.fallbackCount,
+					failures: this.failures
+				},
+				null,
+				2
+			)
+		)
+		return this
+	}
+}
@@ -0,0 +1,175 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { createTranslationFormat } from '@/formats/format.factory'
+import { TranslationObject } from '@/utilities/format.utils'
+import { TranslationJson } from '@/utilities/translation.utils'
+import {
+	getLocaleCodeCandidates,
+	getLocaleFilePath
+} from '@/utilities/layout.utils'
+
+const roundTrip = (fileName: string, content: string) => {
+	const format = createTranslationFormat(fileName)
+	return format.serialize(format.parse(content), new Map())
+}
+
+// parses `content`, applies `changes` and serializes it again
+const edit = (
+	fileName: string,
+	content: string,
+	changes: (json: TranslationObject) => void
+) => {
+	const format = createTranslationFormat(fileName)
+	const json = format.parse(content)
+	changes(json)
+	return format.serialize(json, new Map())
+}
+
+const FILES: Record<string, string> = {
+	'de.json':
+		'{\n  "nav": {\n    "back": "Zurück"\n  },\n  "title": "Hallo"\n}\n',
+	'app_de.arb':
+		'{\n  "@@locale": "de",\n  "title": "Hallo",\n  "@title": {\n    "description": "Page title"\n  }\n}\n',
+	'de.yml':
+		'de:\n  # shown on the home page\n  title: Hallo\n  days: [Mo, Di]\n  nav:\n    back: "Zurück"\n',
+	'de.po':
+		'msgid ""\nmsgstr ""\n"Language: de\\n"\n\n#: src/app.js:1\nmsgid "Hello"\nmsgstr "Hallo"\n',
+	'de.xlf':
+		'<?xml version="1.0" encoding="UTF-8"?>\n<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">\n  <file source-language="en" target-language="de" datatype="plaintext" original="messages">\n    <body>\n      <trans-unit id="title">\n        <source>Hello</source>\n        <target>Hallo</target>\n      </trans-unit>\n    </body>\n  </file>\n</xliff>\n',
+	'strings.xml':
+		'<?xml version="1.0" encoding="utf-8"?>\n<resources>\n    <!-- home -->\n    <string name="title">Hallo</string>\n    <string name="app" translatable="false">App</string>\n</resources>\n',
+	'Localizable.strings':
+		'/* home */\n"title" = "Hallo";\n"quote" = "Er sagt \\"Hallo\\"";\n',
+	'Localizable.stringsdict':
+		'<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">\n<plist version="1.0">\n<dict>\n\t<key>items</key>\n\t<dict>\n\t\t<key>NSStringLocalizedFormatKey</key>\n\t\t<string>%#@count@</string>\n\t\t<key>count</key>\n\t\t<dict>\n\t\t\t<key>NSStringFormatSpecTypeKey</key>\n\t\t\t<string>NSStringPluralRuleType</string>\n\t\t\t<key>NSStringFormatValueTypeKey</key>\n\t\t\t<string>d</string>\n\t\t\t<key>one</key>\n\t\t\t<string>%d Artikel</string>\n\t\t\t<key>other</key>\n\t\t\t<string>%d Artikel</string>\n\t\t</dict>\n\t</dict>\n</dict>\n</plist>\n',
+	'messages.json':
+		'{\n  "title": {\n    "message": "Hallo",\n    "description": "Page title"\n  }\n}\n'
+}
+
+describe('format round trip', () => {
+	for (const [fileName, content] of Object.entries(FILES)) {
+		it(`writes an unchanged ${fileName} back byte for byte`, () => {
+			assert.equal(roundTrip(fileName, content), content)
+		})
+	}
+})
+
+describe('AndroidFormat', () => {
+	const content =
+		'<?xml version="1.0" encoding="utf-8"?>\n<resources>\n    <string name="brand.new">Brand new</string>\n    <plurals name="items">\n        <item quantity="one">%d item</item>\n        <item quantity="other">%d items</item>\n    </plurals>\n    <string-array name="planets">\n        <item>Mercury</item>\n    </string-array>\n</resources>\n'
+
+	it('keeps resource names flat and addresses items by quantity or index', () => {
+		assert.deepEqual(createTranslationFormat('strings.xml').parse(content), {
+			'brand.new': 'Brand new',
+			'items[one]': '%d item',
+			'items[other]': '%d items',
+			'planets[0]': 'Mercury'
+		})
+	})
+
+	it('writes a dotted name back as a string', () => {
+		const written = edit('strings.xml', content, (json) => {
+			json['brand.new'] = 'Ganz neu'
+			json['items[one]'] = '%d Artikel'
+		})
+		assert.match(written, /<string name="brand.new">Ganz neu<\/string>/)
+		assert.match(written, /<item quantity="one">%d Artikel<\/item>/)
+		assert.doesNotMatch(written, /<plurals name="brand"/)
+	})
+
+	it('sets a dotted name through TranslationJson without nesting it', () => {
+		const translation = TranslationJson.fromContent(content, 'strings.xml')
+		assert.equal(translation.getValue('brand.new').value, 'Brand new')
+		translation.setValue('brand.new', 'Ganz neu')
+		assert.deepEqual(translation.flatten().get('brand.new'), 'Ganz neu')
+		assert.match(
+			translation.serialize(),
+			/<string name="brand.new">Ganz neu<\/string>/
+		)
+	})
+
+	it('creates new elements like the source in a new file', () => {
+		const source = createTranslationFormat('values/strings.xml')
+		const json = source.parse(content)
+		const target = createTranslationFormat('values-de/strings.xml')
+		target.useLayoutOf?.(source)
+		const written = target.serialize(json, new Map())
+		assert.match(written, /<string name="brand.new">Brand new<\/string>/)
+		assert.match(written, /<plurals name="items">/)
+		assert.match(written, /<string-array name="planets">/)
+	})
+})
+
+describe('PoFormat', () => {
+	const plural = (header: string) =>
+		`msgid ""\nmsgstr ""\n${header}\nmsgid "%d file"\nmsgid_plural "%d files"\nmsgstr[0] "%d plik"\nmsgstr[1] "%d pliki"\n`
+
+	it('exposes as many plural forms as the Plural-Forms header', () => {
+		const json = createTranslationFormat('pl.po').parse(
+			plural(
+				'"Plural-Forms: nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 ? 1 : 2);\\n"\n'
+			)
+		)
+		assert.deepEqual(Object.keys(json), [
+			'%d file[0]',
+			'%d file[1]',
+			'%d file[2]'
+		])
+		assert.equal(json['%d file[2]'], '%d files')
+	})
+
+	it('exposes one form for languages without plurals', () => {
+		const json = createTranslationFormat('ja.po').parse(
+			plural('"Plural-Forms: nplurals=1; plural=0;\\n"\n')
+		)
+		assert.deepEqual(Object.keys(json), ['%d file[0]'])
+	})
+
+	it('falls back to the translated forms without a header', () => {
+		const json = createTranslationFormat('pl.po').parse(plural(''))
+		assert.deepEqual(Object.keys(json), ['%d file[0]', '%d file[1]'])
+	})
+
+	it('fills in a missing plural form', () => {
+		const written = edit(
+			'pl.po',
+			plural('"Plural-Forms: nplurals=3; plural=0;\\n"\n'),
+			(json) => {
+				json['%d file[2]'] = '%d plików'
+			}
+		)
+		assert.match(written, /msgstr\[2\] "%d plików"/)
+	})
+})
+
+describe('locale file layout', () => {
+	it('places Android and Apple locale files in their locale folder', () => {
+		assert.equal(
+			getLocaleFilePath('res', 'res/values/strings.xml', 'pt-BR', 'en'),
+			'res/values-pt-rBR/strings.xml'
+		)
+		assert.equal(
+			getLocaleFilePath('res', 'res/values/strings.xml', 'zh-Hant', 'en'),
+			'res/values-b+zh+Hant/strings.xml'
+		)
+		assert.equal(
+			getLocaleFilePath('ios', 'ios/en.lproj/Localizable.strings', 'de', 'en'),
+			'ios/de.lproj/Localizable.strings'
+		)
+	})
+
+	it('reads the locale of Android and Apple locale folders', () => {
+		assert.deepEqual(getLocaleCodeCandidates('res/values-pt-rBR/strings.xml'), [
+			'pt-BR'
+		])
+		assert.deepEqual(
+			getLocaleCodeCandidates('res/values-b+zh+Hant/strings.xml'),
+			['zh-Hant']
+		)
+		assert.deepEqual(getLocaleCodeCandidates('res/values/strings.xml'), [])
+		assert.deepEqual(
+			getLocaleCodeCandidates('ios/pt-BR.lproj/Localizable.strings'),
+			['pt-BR']
+		)
+	})
+})
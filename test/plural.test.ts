@@ -0,0 +1,188 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import {
+	createIcuPlural,
+	expandIcuPlural,
+	getPluralCategories,
+	groupPluralVariants,
+	splitIcuPlural
+} from '@/utilities/plural.utils'
+
+const entries = (json: Record<string, string>) =>
+	Object.entries(json).map(([key, value]) => ({ key, value }))
+
+const source = { one: '# item', other: '# items' }
+
+describe('groupPluralVariants', () => {
+	it('groups _one and _other keys into one ICU plural', () => {
+		const { groups, singles } = groupPluralVariants(
+			entries({ items_one: '# item', items_other: '# items', title: 'Cart' })
+		)
+		assert.deepEqual(
+			singles.map((entry) => entry.key),
+			['title']
+		)
+		assert.equal(groups.length, 1)
+		assert.equal(groups[0].base, 'items')
+		assert.equal(groups[0].type, 'cardinal')
+		assert.equal(
+			createIcuPlural(
+				new Map(
+					Array.from(groups[0].variants, ([category, entry]) => [
+						category,
+						entry.value
+					])
+				),
+				groups[0].type
+			),
+			'{count, plural, one {# item} other {# items}}'
+		)
+	})
+
+	it('groups _ordinal keys apart from the cardinal ones', () => {
+		const { groups } = groupPluralVariants(
+			entries({
+				place_one: '# place',
+				place_other: '# places',
+				place_ordinal_one: '#st',
+				place_ordinal_two: '#nd',
+				place_ordinal_few: '#rd',
+				place_ordinal_other: '#th'
+			})
+		)
+		assert.deepEqual(
+			groups.map((group) => [group.base, group.type, group.variants.size]),
+			[
+				['place', 'cardinal', 2],
+				['place', 'ordinal', 4]
+			]
+		)
+		const ordinal = groups[1]
+		assert.equal(
+			createIcuPlural(
+				new Map(
+					Array.from(ordinal.variants, ([category, entry]) => [
+						category,
+						entry.value
+					])
+				),
+				ordinal.type
+			),
+			'{count, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}'
+		)
+	})
+
+	it('leaves an _other key without siblings alone', () => {
+		const { groups, singles } = groupPluralVariants(
+			entries({ option_other: 'Other' })
+		)
+		assert.equal(groups.length, 0)
+		assert.equal(singles.length, 1)
+	})
+})
+
+describe('expandIcuPlural', () => {
+	it('writes all six Arabic forms', () => {
+		assert.deepEqual(getPluralCategories('ar'), [
+			'zero',
+			'one',
+			'two',
+			'few',
+			'many',
+			'other'
+		])
+		const forms = expandIcuPlural(
+			'items',
+			'cardinal',
+			'{count, plural, zero {لا عناصر} one {عنصر} two {عنصران} few {# عناصر} many {# عنصرًا} other {# عنصر}}',
+			source,
+			'ar'
+		)
+		assert.deepEqual(
+			forms.map((form) => [form.key, form.value]),
+			[
+				['items_zero', 'لا عناصر'],
+				['items_one', 'عنصر'],
+				['items_two', 'عنصران'],
+				['items_few', '# عناصر'],
+				['items_many', '# عنصرًا'],
+				['items_other', '# عنصر']
+			]
+		)
+		// categories English lacks are compared against its `other` form
+		assert.equal(forms[0].sourceValue, '# items')
+		assert.equal(forms[1].sourceValue, '# item')
+	})
+
+	it('fills Arabic forms the answer left out from its other form', () => {
+		const forms = expandIcuPlural(
+			'items',
+			'cardinal',
+			'{count, plural, one {عنصر} other {# عنصر}}',
+			source,
+			'ar'
+		)
+		assert.equal(forms.length, 6)
+		assert.equal(
+			forms.find((form) => form.key === 'items_few')?.value,
+			'# عنصر'
+		)
+	})
+
+	it('writes the single Japanese form', () => {
+		assert.deepEqual(
+			expandIcuPlural(
+				'items',
+				'cardinal',
+				'{count, plural, other {#個のアイテム}}',
+				source,
+				'ja'
+			),
+			[
+				{
+					key: 'items_other',
+					value: '#個のアイテム',
+					sourceValue: '# items'
+				}
+			]
+		)
+	})
+
+	it('uses the ordinal categories of the locale for _ordinal keys', () => {
+		const forms = expandIcuPlural(
+			'place',
+			'ordinal',
+			'{count, selectordinal, other {#.}}',
+			{ one: '#st', two: '#nd', few: '#rd', other: '#th' },
+			'de'
+		)
+		assert.deepEqual(
+			forms.map((form) => [form.key, form.value]),
+			[['place_ordinal_other', '#.']]
+		)
+	})
+
+	it('falls back to the source forms when the answer is not a plural', () => {
+		assert.deepEqual(
+			expandIcuPlural('items', 'cardinal', 'Artikel', source, 'de').map(
+				(form) => form.value
+			),
+			['# item', '# items']
+		)
+	})
+})
+
+describe('splitIcuPlural', () => {
+	it('keeps nested arguments and drops exact matches', () => {
+		assert.deepEqual(
+			splitIcuPlural(
+				'{count, plural, =0 {none} one {{name} has # item} other {{name} has # items}}'
+			),
+			{ one: '{name} has # item', other: '{name} has # items' }
+		)
+	})
+
+	it('rejects a message without an other form', () => {
+		assert.equal(splitIcuPlural('{count, plural, one {# item}}'), undefined)
+	})
+})
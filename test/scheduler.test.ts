@@ -0,0 +1,149 @@
+import { afterEach, before, beforeEach, describe, it, mock } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { Logger } from '@/utilities/logger.utils'
+import { Scheduler } from '@/utilities/scheduler.utils'
+
+// lets every pending promise settle, setImmediate is not faked
+const flush = () => new Promise<void>((resolve) => setImmediate(resolve))
+
+const deferred = () => {
+	let resolve = () => {}
+	const promise = new Promise<void>((done) => (resolve = done))
+	return { promise, resolve }
+}
+
+const rateLimited = (retryAfter: string) =>
+	Object.assign(new Error('Too Many Requests'), {
+		status: 429,
+		headers: { 'retry-after': retryAfter }
+	})
+
+before(() => Logger.configure({ level: 'ERROR' }))
+
+beforeEach(() => mock.timers.enable({ apis: ['setTimeout', 'Date'] }))
+
+afterEach(() => mock.timers.reset())
+
+describe('Scheduler', () => {
+	it('runs at most maxConcurrency tasks at a time, in order', async () => {
+		const scheduler = new Scheduler({ maxConcurrency: 2 })
+		const gates = [deferred(), deferred(), deferred(), deferred()]
+		const started: number[] = []
+		const runs = gates.map((gate, index) =>
+			scheduler.run(async () => {
+				started.push(index)
+				await gate.promise
+			})
+		)
+
+		await flush()
+		assert.deepEqual(started, [0, 1])
+		gates[1].resolve()
+		await flush()
+		assert.deepEqual(started, [0, 1, 2])
+		gates[0].resolve()
+		gates[2].resolve()
+		gates[3].resolve()
+		await Promise.all(runs)
+		assert.deepEqual(started, [0, 1, 2, 3])
+	})
+
+	it('waits for the requests per minute budget', async () => {
+		const scheduler = new Scheduler({ maxConcurrency: 3, requestsPerMinute: 2 })
+		const startedAt: number[] = []
+		const runs = [0, 1, 2].map(() =>
+			scheduler.run(async () => {
+				startedAt.push(Date.now())
+			})
+		)
+
+		await flush()
+		assert.deepEqual(startedAt, [0, 0])
+		mock.timers.tick(59_999)
+		await flush()
+		assert.equal(startedAt.length, 2)
+		mock.timers.tick(1)
+		await Promise.all(runs)
+		assert.deepEqual(startedAt, [0, 0, 60_000])
+	})
+
+	it('waits for the tokens per minute budget', async () => {
+		const scheduler = new Scheduler({ maxConcurrency: 2, tokensPerMinute: 100 })
+		const startedAt: number[] = []
+		const run = (tokens: number) =>
+			scheduler.run(
+				async () => {
+					startedAt.push(Date.now())
+				},
+				{ tokens }
+			)
+
+		await run(60)
+		mock.timers.tick(10_000)
+		const second = run(60)
+		await flush()
+		assert.deepEqual(startedAt, [0])
+		mock.timers.tick(50_000)
+		await second
+		assert.deepEqual(startedAt, [0, 60_000])
+	})
+
+	it('pauses every task for the Retry-After delay of a 429', async () => {
+		const scheduler = new Scheduler({ maxConcurrency: 2 })
+		const startedAt: number[] = []
+		let retries = 0
+		let failed = false
+		const limited = scheduler.run(
+			async () => {
+				startedAt.push(Date.now())
+				if (!failed) {
+					failed = true
+					throw rateLimited('5')
+				}
+				return 'done'
+			},
+			{ onRetry: () => retries++ }
+		)
+
+		await flush()
+		assert.equal(retries, 1)
+		const other = scheduler.run(async () => startedAt.push(Date.now()))
+		mock.timers.tick(4_999)
+		await flush()
+		assert.deepEqual(startedAt, [0])
+		mock.timers.tick(1)
+		assert.equal(await limited, 'done')
+		await other
+		assert.deepEqual(startedAt, [0, 5_000, 5_000])
+	})
+
+	it('rethrows a 429 once the retries are used up', async () => {
+		const scheduler = new Scheduler({
+			maxConcurrency: 1,
+			maxRateLimitRetries: 0
+		})
+		await assert.rejects(
+			scheduler.run(async () => {
+				throw rateLimited('1')
+			}),
+			/Too Many Requests/
+		)
+	})
+
+	it('rejects the tasks that have not started once cancelled', async () => {
+		const scheduler = new Scheduler({ maxConcurrency: 1 })
+		const gate = deferred()
+		let ran = false
+		const first = scheduler.run(() => gate.promise)
+		const second = scheduler.run(async () => {
+			ran = true
+		})
+
+		await flush()
+		scheduler.cancel(new Error('fatal'))
+		gate.resolve()
+		await first
+		await assert.rejects(second, /fatal/)
+		assert.equal(ran, false)
+	})
+})
@@ -0,0 +1,140 @@
+import { after, before, beforeEach, describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as http from 'node:http'
+import { AddressInfo } from 'node:net'
+import { HTTP_TOKEN_ENV } from '@/constants/sink.constants'
+import { HttpSink } from '@/sinks/http.sink'
+import { TmsSink } from '@/sinks/tms.sink'
+import { resolveHttpHeaders } from '@/utilities/http.utils'
+import { SinkDocument } from '@/utilities/sink.utils'
+
+interface StubRequest {
+	method?: string
+	url?: string
+	headers: http.IncomingHttpHeaders
+	body: string
+}
+
+// local stub recording every request it receives
+const requests: StubRequest[] = []
+const server = http.createServer((request, response) => {
+	let body = ''
+	request.on('data', (chunk) => (body += chunk))
+	request.on('end', () => {
+		requests.push({
+			method: request.method,
+			url: request.url,
+			headers: request.headers,
+			body
+		})
+		response.writeHead(204).end()
+	})
+})
+let baseUrl = ''
+
+const document: SinkDocument = {
+	locale: 'pt-BR',
+	path: 'locales/pt-BR.json',
+	format: 'json',
+	content: '{\n  "hello": "Olá"\n}\n',
+	translations: { hello: 'Olá' },
+	removed: ['bye']
+}
+
+before(async () => {
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+after(() => server.close())
+
+beforeEach(() => {
+	requests.length = 0
+})
+
+describe('HttpSink', () => {
+	it('uploads the serialized file verbatim to the expanded URL', async () => {
+		await new HttpSink(`${baseUrl}/locales/{locale}/{file}`, 'PUT', {
+			Authorization: 'Bearer secret'
+		}).write(document)
+
+		assert.equal(requests.length, 1)
+		const [request] = requests
+		assert.equal(request.method, 'PUT')
+		assert.equal(request.url, '/locales/pt-BR/pt-BR.json')
+		assert.equal(request.body, document.content)
+		assert.equal(
+			request.headers['content-type'],
+			'application/json; charset=utf-8'
+		)
+		assert.equal(request.headers.authorization, 'Bearer secret')
+	})
+
+	it('uses POST when configured', async () => {
+		await new HttpSink(`${baseUrl}/upload`, 'POST').write(document)
+
+		assert.equal(requests[0].method, 'POST')
+	})
+})
+
+describe('TmsSink', () => {
+	it('sends the changed keys and the removed keys as JSON', async () => {
+		await new TmsSink(`${baseUrl}/projects/app/{locale}`, 'POST', {
+			'X-Api-Key': 'secret'
+		}).write(document)
+
+		assert.equal(requests.length, 1)
+		const [request] = requests
+		assert.equal(request.method, 'POST')
+		assert.equal(request.url, '/projects/app/pt-BR')
+		assert.match(request.headers['content-type'] ?? '', /application\/json/)
+		assert.equal(request.headers['x-api-key'], 'secret')
+		assert.deepEqual(JSON.parse(request.body), {
+			locale: 'pt-BR',
+			translations: { hello: 'Olá' },
+			removed: ['bye']
+		})
+	})
+
+	it('skips locales without changes', async () => {
+		await new TmsSink(`${baseUrl}/projects/app/{locale}`).write({
+			...document,
+			translations: {},
+			removed: []
+		})
+
+		assert.equal(requests.length, 0)
+	})
+})
+
+describe('resolveHttpHeaders', () => {
+	before(() => {
+		process.env[HTTP_TOKEN_ENV] = 'token'
+	})
+
+	after(() => {
+		delete process.env[HTTP_TOKEN_ENV]
+	})
+
+	it('only sends the token when asked to', () => {
+		assert.deepEqual(resolveHttpHeaders({ Accept: 'text/plain' }), {
+			Accept: 'text/plain'
+		})
+		assert.deepEqual(resolveHttpHeaders({}, 'env'), {
+			Authorization: 'Bearer token'
+		})
+	})
+
+	it('keeps a configured Authorization header', () => {
+		assert.deepEqual(
+			resolveHttpHeaders({ authorization: 'Basic abc' }, 'env'),
+			{ authorization: 'Basic abc' }
+		)
+	})
+
+	it('fails when the token is asked for but not set', () => {
+		delete process.env[HTTP_TOKEN_ENV]
+		assert.throws(() => resolveHttpHeaders({}, 'env'), /is not set/)
+		process.env[HTTP_TOKEN_ENV] = 'token'
+	})
+})
@@ -0,0 +1,156 @@
+import { before, describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import {
+	LLMTranslation,
+	TranslationKeyValue
+} from '@/utilities/translation.utils'
+import {
+	TranslationIssueType,
+	validateTranslation,
+	ValidationReport
+} from '@/utilities/validation.utils'
+import { Logger } from '@/utilities/logger.utils'
+import {
+	TranslationProvider,
+	TranslationProviderRequest,
+	TranslationProviderResponse
+} from '@/utilities/provider.utils'
+
+const getTypes = (
+	source: string,
+	translation: string,
+	language?: string
+): TranslationIssueType[] =>
+	validateTranslation(source, translation, language).map((issue) => issue.type)
+
+// answers every request with the next scripted translations
+class ScriptedProvider implements TranslationProvider {
+	public readonly name = 'scripted'
+	public readonly model = 'scripted'
+	public readonly requests: TranslationProviderRequest[] = []
+
+	constructor(private readonly responses: Record<string, string>[]) {}
+
+	public async translate(
+		request: TranslationProviderRequest
+	): Promise<TranslationProviderResponse> {
+		this.requests.push(request)
+		return { translations: this.responses[this.requests.length - 1] ?? {} }
+	}
+}
+
+const language = { code: 'de', name: 'German' }
+
+before(() => Logger.configure({ level: 'ERROR' }))
+
+describe('validateTranslation', () => {
+	it('accepts a translation keeping every placeholder, tag and space', () => {
+		assert.deepEqual(
+			getTypes(
+				'Hello <b>{name}</b>, you have %d items ',
+				'Hallo <b>{name}</b>, du hast %d Artikel '
+			),
+			[]
+		)
+	})
+
+	// `{name}` is an ICU argument, `{{name}}` and `%s` are placeholders
+	it('reports a missing or an extra {name} argument', () => {
+		assert.deepEqual(getTypes('Hello {name}', 'Hallo'), ['icu'])
+		assert.deepEqual(getTypes('Hello {name}', 'Hallo {name} {name}'), ['icu'])
+		assert.deepEqual(getTypes('Hello', 'Hallo {name}'), ['icu'])
+	})
+
+	it('reports a missing or an extra placeholder', () => {
+		assert.deepEqual(getTypes('Hello {{name}}', 'Hallo'), ['placeholder'])
+		assert.deepEqual(getTypes('%s items', '%s %s Artikel'), ['placeholder'])
+	})
+
+	it('reports a renamed ICU argument', () => {
+		assert.ok(
+			getTypes(
+				'{count, plural, one {# item} other {# items}}',
+				'{anzahl, plural, one {# Artikel} other {# Artikel}}',
+				'de'
+			).includes('icu')
+		)
+	})
+
+	it('reports a changed ICU argument type', () => {
+		assert.ok(
+			getTypes(
+				'{gender, select, male {He} other {They}}',
+				'{gender, plural, one {Er} other {Sie}}',
+				'de'
+			).includes('icu')
+		)
+	})
+
+	it('reports a dropped tag', () => {
+		assert.deepEqual(getTypes('Click <b>here</b>', 'Hier klicken'), ['tag'])
+	})
+
+	it('reports changed leading or trailing whitespace', () => {
+		assert.deepEqual(getTypes(' Name', 'Name'), ['whitespace'])
+		assert.deepEqual(getTypes('Name:', 'Name: '), ['whitespace'])
+	})
+
+	it('reports an empty translation of a non-empty source', () => {
+		assert.deepEqual(getTypes('Save', '  '), ['empty'])
+	})
+})
+
+describe('LLMTranslation', () => {
+	const source = [
+		new TranslationKeyValue('greeting', 'Hello {name}'),
+		new TranslationKeyValue('save', 'Save')
+	]
+
+	it('keeps a translation the corrective request fixed', async () => {
+		const provider = new ScriptedProvider([
+			{ '0': 'Hallo', '1': 'Speichern' },
+			{ '0': 'Hallo {name}' }
+		])
+		const report = new ValidationReport()
+		const translated = await new LLMTranslation(language, provider, {
+			validationReport: report
+		}).translate(source)
+
+		assert.equal(provider.requests.length, 2)
+		// only the failing entry is asked again
+		assert.deepEqual(provider.requests[1].inputs, { '0': 'Hello {name}' })
+		assert.deepEqual(
+			translated?.map((entry) => entry.value),
+			['Hallo {name}', 'Speichern']
+		)
+		assert.equal(report.failures.length, 1)
+		assert.equal(report.failures[0].fallback, false)
+	})
+
+	it('falls back to the source after one corrective request', async () => {
+		const provider = new ScriptedProvider([
+			{ '0': 'Hallo', '1': 'Speichern' },
+			{ '0': 'Hallo immer noch' }
+		])
+		const report = new ValidationReport()
+		const translated = await new LLMTranslation(language, provider, {
+			validationReport: report
+		}).translate(source)
+
+		assert.equal(provider.requests.length, 2)
+		assert.deepEqual(
+			translated?.map((entry) => entry.value),
+			['Hello {name}', 'Speichern']
+		)
+		assert.equal(report.fallbackCount, 1)
+		assert.equal(report.failures[0].key, 'greeting')
+	})
+
+	it('sends no corrective request when every translation is valid', async () => {
+		const provider = new ScriptedProvider([
+			{ '0': 'Hallo {name}', '1': 'Speichern' }
+		])
+		await new LLMTranslation(language, provider).translate(source)
+		assert.equal(provider.requests.length, 1)
+	})
+})